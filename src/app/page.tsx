@@ -22,6 +22,7 @@ export default function Home() {
   const [video, setVideo] = useState<HTMLVideoElement | HTMLImageElement | null>(null);
   const [gifFrames, setGifFrames] = useState<GifFrame[] | undefined>(undefined);
   const [fileName, setFileName] = useState<string>("");
+  const [sourceFile, setSourceFile] = useState<File | undefined>(undefined);
   const [settings, setSettings] = useState<ASCIISettings>(DEFAULT_SETTINGS);
   const [originalWidth, setOriginalWidth] = useState(0);
   const [originalHeight, setOriginalHeight] = useState(0);
@@ -61,6 +62,7 @@ export default function Home() {
         loadingStartTimeRef.current = null;
         setVideo(loadedVideo);
         setFileName(file.name);
+        setSourceFile(file);
         setGifFrames(frames);
         if (loadedVideo instanceof HTMLVideoElement) {
           setOriginalWidth(loadedVideo.videoWidth);
@@ -86,6 +88,7 @@ export default function Home() {
         // Show the editing components
         setVideo(pending.video);
         setFileName(pending.file.name);
+        setSourceFile(pending.file);
         setGifFrames(pending.frames);
         if (pending.video instanceof HTMLVideoElement) {
           setOriginalWidth(pending.video.videoWidth);
@@ -110,6 +113,7 @@ export default function Home() {
     setVideo(null);
     setGifFrames(undefined);
     setFileName("");
+    setSourceFile(undefined);
     setOriginalWidth(0);
     setOriginalHeight(0);
   };
@@ -243,6 +247,7 @@ export default function Home() {
                     settings={settings}
                     originalWidth={originalWidth}
                     originalHeight={originalHeight}
+                    sourceFile={sourceFile}
                   />
                 </div>
                 <div className="lg:self-stretch">
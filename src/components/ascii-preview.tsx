@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -23,9 +24,54 @@ import {
 } from "@/components/ui/dialog";
 import {
   ASCIISettings,
-  convertFrameToASCII,
+  convertToASCIIFrame,
+  getGridOutputSize,
   renderASCIIToCanvas,
 } from "@/lib/ascii-converter";
+import { hexToPacked } from "@/lib/ascii-frame";
+import { RenderPool, createRenderPool } from "@/lib/render-pool";
+import { createTemporalState } from "@/lib/temporal";
+import {
+  VIDEO_MIME_TYPES,
+  VideoContainer,
+  createFrameEncoder,
+  getEncodableSize,
+  supportsVideoEncoding,
+} from "@/lib/video-export";
+import {
+  AUDIO_FILE_ACCEPT,
+  AudioRange,
+  ExportAudioSource,
+  decodeAudioFile,
+  hasAudioTrack,
+  renderAudioRange,
+} from "@/lib/audio-export";
+import {
+  DEFAULT_GIF_EXPORT_OPTIONS,
+  GIFDither,
+  GIFExportOptions,
+  GIFLoop,
+  GIFSourceTimeline,
+  GIFTransparency,
+  GIF_DITHER_OPTIONS,
+  GIF_FPS_OPTIONS,
+  applyGIFTransparency,
+  createGIFTimeline,
+  getGIFDither,
+  getGIFRepeat,
+  getLoopPlays,
+  pickTransparentKey,
+  planGIFFrames,
+  usesGlobalGIFPalette,
+} from "@/lib/gif-export";
+import {
+  ANIMATED_IMAGE_TYPES,
+  AnimatedImageFormat,
+  AnimatedImageFrame,
+  canvasToBlob,
+  encodeAnimatedImage,
+  supportsWebPEncoding,
+} from "@/lib/animated-image";
 import GIF from "gif.js";
 
 const MAX_PREVIEW_WIDTH = 800;
@@ -44,9 +90,31 @@ interface ASCIIPreviewProps {
   settings: ASCIISettings;
   originalWidth: number;
   originalHeight: number;
+  // Uploaded file behind `video`, used to decode its audio for exports
+  sourceFile?: File;
+}
+
+type ExportFormat = "gif" | AnimatedImageFormat | VideoContainer;
+
+// Formats exported frame by frame from the GIF timing options
+function isAnimationFormat(format: ExportFormat): format is "gif" | AnimatedImageFormat {
+  return format === "gif" || format === "apng" || format === "webp";
 }
 
-type ExportFormat = "gif" | "mp4" | "webm";
+// Seconds of video exported from a still image
+const STILL_VIDEO_DURATION = 2;
+
+const VIDEO_FPS_OPTIONS = [15, 24, 30, 60];
+const VIDEO_BITRATE_OPTIONS = [2_000_000, 5_000_000, 10_000_000, 20_000_000];
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
 export function ASCIIPreview({
   video,
@@ -54,6 +122,7 @@ export function ASCIIPreview({
   settings,
   originalWidth,
   originalHeight,
+  sourceFile,
 }: ASCIIPreviewProps) {
   const isVideo = video instanceof HTMLVideoElement;
   const isAnimatedGif = !isVideo && gifFrames && gifFrames.length > 1;
@@ -64,18 +133,35 @@ export function ASCIIPreview({
   const animationRef = useRef<number>(0);
   const gifFrameIndexRef = useRef(0);
   const lastGifFrameTimeRef = useRef(0);
+  const renderPoolRef = useRef<RenderPool | null>(null);
+  const renderFrameRef = useRef<() => void>(() => {});
+  const renderQueuedRef = useRef(false);
+  const frameSequenceRef = useRef(0);
+  const presentedSequenceRef = useRef(0);
+  const resetStreamRef = useRef(false);
+  const decodedAudioRef = useRef<{ file: Blob; buffer: AudioBuffer } | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  // Something the last export had to leave out, e.g. its soundtrack
+  const [exportNotice, setExportNotice] = useState<string | null>(null);
   const [exportFormat, setExportFormat] = useState<ExportFormat>("gif");
+  const [videoFps, setVideoFps] = useState(30);
+  const [videoBitrate, setVideoBitrate] = useState(5_000_000);
+  const [gifOptions, setGifOptions] = useState<GIFExportOptions>(DEFAULT_GIF_EXPORT_OPTIONS);
+  const [webpQuality, setWebpQuality] = useState(0.9);
+  const [audioSource, setAudioSource] = useState<ExportAudioSource>("source");
+  const [audioFile, setAudioFile] = useState<File | null>(null);
   const [previewScale, setPreviewScale] = useState(50);
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportWidthOverride, setExportWidthOverride] = useState("");
   const [exportHeightOverride, setExportHeightOverride] = useState("");
 
-  const aspectRatio = originalWidth / originalHeight;
-  const previewWidth = Math.round(originalWidth * (previewScale / 100));
-  const previewHeight = Math.round(originalHeight * (previewScale / 100));
+  // Fixed column x row grids set their own aspect ratio
+  const outputSize = getGridOutputSize(originalWidth, originalHeight, settings);
+  const aspectRatio = outputSize.width / outputSize.height;
+  const previewWidth = Math.round(outputSize.width * (previewScale / 100));
+  const previewHeight = Math.round(outputSize.height * (previewScale / 100));
 
   const needsScroll = previewWidth > MAX_PREVIEW_WIDTH || previewHeight > MAX_PREVIEW_HEIGHT;
 
@@ -95,6 +181,16 @@ export function ASCIIPreview({
     return { width: previewWidth, height: previewHeight };
   };
 
+  // Conversion runs in workers; the preview only presents finished frames
+  useEffect(() => {
+    const pool = createRenderPool();
+    renderPoolRef.current = pool;
+    return () => {
+      renderPoolRef.current = null;
+      pool.dispose();
+    };
+  }, []);
+
   const renderGifFrame = useCallback((frameIndex: number) => {
     if (!gifFrames || !gifCanvasRef.current) return;
     
@@ -118,26 +214,66 @@ export function ASCIIPreview({
   const renderFrame = useCallback(() => {
     const sourceCanvas = sourceCanvasRef.current;
     const outputCanvas = outputCanvasRef.current;
-    if (!sourceCanvas || !outputCanvas) return;
+    const pool = renderPoolRef.current;
+    if (!sourceCanvas || !outputCanvas || !pool) return;
+
+    // Smoothed frames depend on the one before, so they form a stream the pool runs in order
+    const stream = settings.temporalSmoothing ? "preview" : undefined;
+
+    // While the pool is busy, drop this frame but remember to render once it frees up
+    if (pool.isBusy(stream)) {
+      renderQueuedRef.current = true;
+      return;
+    }
+    renderQueuedRef.current = false;
 
     const sourceCtx = sourceCanvas.getContext("2d", { willReadFrequently: true });
     const outputCtx = outputCanvas.getContext("2d");
     if (!sourceCtx || !outputCtx) return;
 
+    // Clear first so transparent source pixels don't keep the previous frame
+    sourceCtx.clearRect(0, 0, originalWidth, originalHeight);
     if (isAnimatedGif && gifCanvasRef.current) {
       sourceCtx.drawImage(gifCanvasRef.current, 0, 0, originalWidth, originalHeight);
     } else {
       sourceCtx.drawImage(video, 0, 0, originalWidth, originalHeight);
     }
-    
-    const asciiChars = convertFrameToASCII(
-      sourceCtx,
-      originalWidth,
-      originalHeight,
-      settings
-    );
-    renderASCIIToCanvas(outputCtx, asciiChars, settings, originalWidth, originalHeight);
-  }, [video, settings, originalWidth, originalHeight, isAnimatedGif]);
+
+    const sequence = ++frameSequenceRef.current;
+    const outputWidth = outputCanvas.width;
+    const outputHeight = outputCanvas.height;
+    // Paused frames are stills, so only carry temporal history while playing, and
+    // start over when smoothing comes back on after frames rendered without it
+    const resetStream = !isPlaying || resetStreamRef.current;
+    resetStreamRef.current = stream === undefined;
+    createImageBitmap(sourceCanvas)
+      .then((source) =>
+        pool.render({ source, settings, outputWidth, outputHeight, stream, resetStream })
+      )
+      .then((bitmap) => {
+        // Only present frames newer than what's on screen, at the size they were rendered for
+        if (
+          sequence > presentedSequenceRef.current &&
+          outputCanvas.width === outputWidth &&
+          outputCanvas.height === outputHeight
+        ) {
+          presentedSequenceRef.current = sequence;
+          outputCtx.clearRect(0, 0, outputWidth, outputHeight);
+          outputCtx.drawImage(bitmap, 0, 0);
+        }
+        bitmap.close();
+      })
+      .catch(() => {
+        // A dropped frame is replaced by the next one
+      })
+      .finally(() => {
+        if (renderQueuedRef.current) renderFrameRef.current();
+      });
+  }, [video, settings, originalWidth, originalHeight, isAnimatedGif, isPlaying]);
+
+  useEffect(() => {
+    renderFrameRef.current = renderFrame;
+  }, [renderFrame]);
 
   const animate = useCallback((timestamp: number) => {
     let shouldRender = false;
@@ -212,132 +348,277 @@ export function ASCIIPreview({
       gifFrameIndexRef.current = 0;
       renderGifFrame(0);
     }
+    resetStreamRef.current = true;
     renderFrame();
   };
 
-  const exportAsGIF = async () => {
+  // Source timeline the GIF export options are planned against
+  const getGIFTimeline = (): GIFSourceTimeline => {
+    if (isAnimatedGif && gifFrames) return createGIFTimeline(gifFrames.map((frame) => frame.delay));
+    return { duration: isVideo ? video.duration || 0 : 0 };
+  };
+
+  // Resolves once the video shows `time`; seeking to the current time fires no event
+  const seekVideo = (target: HTMLVideoElement, time: number) =>
+    new Promise<void>((resolve) => {
+      if (target.currentTime === time && target.readyState >= 2) {
+        resolve();
+        return;
+      }
+      target.onseeked = () => resolve();
+      target.currentTime = time;
+    });
+
+  const updateGifOption = <K extends keyof GIFExportOptions>(key: K, value: GIFExportOptions[K]) => {
+    setGifOptions((options) => ({ ...options, [key]: value }));
+  };
+
+  /**
+   * Steps through the source as the animation options plan it, converting each
+   * frame onto `exportCtx` and passing it to `onFrame` with its delay in ms.
+   * Stills become a single frame. Progress covers 0 to `progressShare` percent.
+   */
+  const captureAnimationFrames = async (
+    exportCtx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    onFrame: (delay: number) => void | Promise<void>,
+    progressShare: number
+  ) => {
     const sourceCanvas = sourceCanvasRef.current;
-    const outputCanvas = outputCanvasRef.current;
-    if (!sourceCanvas || !outputCanvas) return;
+    const sourceCtx = sourceCanvas?.getContext("2d", { willReadFrequently: true });
+    if (!sourceCanvas || !sourceCtx) return;
 
-    const sourceCtx = sourceCanvas.getContext("2d", { willReadFrequently: true });
-    const outputCtx = outputCanvas.getContext("2d");
-    if (!sourceCtx || !outputCtx) return;
+    // Fresh history per export so the result doesn't depend on the preview
+    const temporal = createTemporalState();
+    const renderExportFrame = () => {
+      const asciiFrame = convertToASCIIFrame(
+        sourceCtx,
+        originalWidth,
+        originalHeight,
+        settings,
+        temporal
+      );
+      renderASCIIToCanvas(exportCtx, asciiFrame, settings, width, height, sourceCanvas);
+    };
 
+    if (!isAnimatedGif && !isVideo) {
+      sourceCtx.clearRect(0, 0, originalWidth, originalHeight);
+      sourceCtx.drawImage(video, 0, 0, originalWidth, originalHeight);
+      renderExportFrame();
+      await onFrame(100);
+      setExportProgress(progressShare);
+      return;
+    }
+
+    const timeline = getGIFTimeline();
+    const { times, delays } = planGIFFrames(gifOptions, timeline);
+    const frameStarts = timeline.frameStarts ?? [];
+    let gifFrame = -1;
+
+    for (let i = 0; i < times.length; i++) {
+      sourceCtx.clearRect(0, 0, originalWidth, originalHeight);
+      if (isVideo) {
+        await seekVideo(video, times[i]);
+        sourceCtx.drawImage(video, 0, 0, originalWidth, originalHeight);
+      } else if (gifCanvasRef.current) {
+        // GIF frames build on each other, so composite every one up to this time
+        if (gifFrame < 0) gifCanvasRef.current.getContext("2d")?.clearRect(0, 0, originalWidth, originalHeight);
+        while (gifFrame + 1 < frameStarts.length && frameStarts[gifFrame + 1] <= times[i] + 1e-6) {
+          renderGifFrame(++gifFrame);
+        }
+        sourceCtx.drawImage(gifCanvasRef.current, 0, 0, originalWidth, originalHeight);
+      }
+      renderExportFrame();
+      await onFrame(delays[i]);
+
+      setExportProgress(Math.round(((i + 1) / times.length) * progressShare));
+    }
+  };
+
+  const exportAsGIF = async () => {
     const exportDims = getExportDimensions();
     const exportCanvas = document.createElement("canvas");
     exportCanvas.width = exportDims.width;
     exportCanvas.height = exportDims.height;
-    const exportCtx = exportCanvas.getContext("2d");
+    const exportCtx = exportCanvas.getContext("2d", { willReadFrequently: true });
     if (!exportCtx) return;
 
     const gif = new GIF({
       workers: 2,
-      quality: 10,
+      quality: gifOptions.quality,
+      dither: getGIFDither(gifOptions),
+      globalPalette: usesGlobalGIFPalette(gifOptions, settings.transparentBackground),
+      repeat: getGIFRepeat(gifOptions),
       width: exportDims.width,
       height: exportDims.height,
       workerScript: "/gif.worker.js",
-      transparent: settings.transparentBackground ? 0x00000000 : undefined,
+    });
+    const transparency: GIFTransparency = {
+      threshold: gifOptions.transparencyThreshold,
+      matte: gifOptions.matteColor ? hexToPacked(gifOptions.matteColor) >>> 8 : null,
+    };
+
+    // Capturing is the first half of the work, encoding the second
+    await captureAnimationFrames(exportCtx, exportDims.width, exportDims.height, (delay) => {
+      if (!settings.transparentBackground) {
+        gif.addFrame(exportCtx, { delay, copy: true });
+        return;
+      }
+
+      const image = exportCtx.getImageData(0, 0, exportDims.width, exportDims.height);
+      // Each frame gets its own palette, so each picks a key its own colours leave free
+      const key = pickTransparentKey(image.data, transparency.threshold);
+      const keyed = applyGIFTransparency(image.data, key, transparency);
+      gif.setOption("transparent", keyed ? key : null);
+      gif.addFrame(image, { delay });
+    }, 50);
+
+    gif.on("progress", (progress: number) => setExportProgress(50 + Math.round(progress * 50)));
+    gif.on("finished", (blob: Blob) => {
+      downloadBlob(blob, "ascii-video.gif");
+      setIsExporting(false);
+      setExportProgress(0);
     });
 
-    if (isAnimatedGif && gifFrames) {
-      const totalFrames = gifFrames.length;
-      
-      for (let i = 0; i < totalFrames; i++) {
-        renderGifFrame(i);
-        
-        if (gifCanvasRef.current) {
-          sourceCtx.drawImage(gifCanvasRef.current, 0, 0, originalWidth, originalHeight);
-        }
-        
-        const asciiChars = convertFrameToASCII(
-          sourceCtx,
-          originalWidth,
-          originalHeight,
-          settings
-        );
-        renderASCIIToCanvas(exportCtx, asciiChars, settings, exportDims.width, exportDims.height);
-
-        const frameCanvas = document.createElement("canvas");
-        frameCanvas.width = exportDims.width;
-        frameCanvas.height = exportDims.height;
-        const frameCtx = frameCanvas.getContext("2d");
-        if (frameCtx) {
-          frameCtx.drawImage(exportCanvas, 0, 0);
-          // gifuct-js returns delay in milliseconds, enforce minimum of 20ms
-          const delay = Math.max(20, gifFrames[i].delay || 100);
-          gif.addFrame(frameCanvas, { delay, copy: true });
-        }
+    gif.render();
+  };
 
-        setExportProgress(Math.round(((i + 1) / totalFrames) * 100));
+  // APNG and animated WebP: each frame is encoded by the browser, then assembled
+  const exportAsAnimatedImage = async (format: AnimatedImageFormat) => {
+    if (format === "webp" && !supportsWebPEncoding()) {
+      alert("This browser can't encode WebP images. Try APNG instead.");
+      setIsExporting(false);
+      return;
+    }
+
+    const exportDims = getExportDimensions();
+    const exportCanvas = document.createElement("canvas");
+    exportCanvas.width = exportDims.width;
+    exportCanvas.height = exportDims.height;
+    const exportCtx = exportCanvas.getContext("2d");
+    if (!exportCtx) return;
+
+    const frames: AnimatedImageFrame[] = [];
+    const stillType = format === "apng" ? "image/png" : "image/webp";
+    await captureAnimationFrames(exportCtx, exportDims.width, exportDims.height, async (delay) => {
+      frames.push({ image: await canvasToBlob(exportCanvas, stillType, webpQuality), delay });
+    }, 100);
+
+    const blob = await encodeAnimatedImage(format, frames, {
+      width: exportDims.width,
+      height: exportDims.height,
+      plays: getLoopPlays(gifOptions),
+    });
+    downloadBlob(blob, `ascii-video.${ANIMATED_IMAGE_TYPES[format].extension}`);
+    setIsExporting(false);
+    setExportProgress(0);
+  };
+
+  // Decoding is slow, so keep the last file's audio around between exports
+  const decodeAudioCached = async (file: Blob) => {
+    if (decodedAudioRef.current?.file !== file) {
+      decodedAudioRef.current = { file, buffer: await decodeAudioFile(file) };
+    }
+    return decodedAudioRef.current.buffer;
+  };
+
+  // Soundtrack for a video export cut to `range`, or null for a silent export
+  const getExportAudio = async (range: AudioRange): Promise<AudioBuffer | null> => {
+    try {
+      if (audioSource === "source" && isVideo && sourceFile) {
+        // A source without sound just exports silently; only failed decodes get a notice
+        if (hasAudioTrack(video) === false) return null;
+        return await renderAudioRange(await decodeAudioCached(sourceFile), range);
+      }
+      if (audioSource === "file" && audioFile) {
+        const audio = await decodeAudioCached(audioFile);
+        // A replacement track plays from its start at normal speed
+        return await renderAudioRange(audio, { ...range, start: 0, playbackRate: 1 });
       }
-    } else if (isVideo) {
-      const fps = 15;
-      const duration = video.duration;
-      const totalFrames = Math.min(Math.floor(duration * fps), 150);
+    } catch {
+      setExportNotice(
+        audioSource === "file"
+          ? `Couldn't decode ${audioFile?.name ?? "the audio file"}; exported without audio.`
+          : "Couldn't decode the source's audio; exported without audio."
+      );
+    }
+    return null;
+  };
+
+  // The export covers the whole source at the video's playback speed
+  const getExportRange = (): AudioRange => {
+    const playbackRate = isVideo ? video.playbackRate || 1 : 1;
+    const sourceDuration = isVideo ? video.duration : STILL_VIDEO_DURATION;
+    return { start: 0, duration: sourceDuration / playbackRate, playbackRate };
+  };
+
+  const exportAsVideo = async (format: VideoContainer) => {
+    if (!supportsVideoEncoding()) {
+      await recordVideo(format);
+      return;
+    }
+
+    const sourceCanvas = sourceCanvasRef.current;
+    if (!sourceCanvas) return;
+
+    const sourceCtx = sourceCanvas.getContext("2d", { willReadFrequently: true });
+    if (!sourceCtx) return;
 
+    const exportDims = getExportDimensions();
+    const { width, height } = getEncodableSize(exportDims.width, exportDims.height);
+    const exportCanvas = document.createElement("canvas");
+    exportCanvas.width = width;
+    exportCanvas.height = height;
+    const exportCtx = exportCanvas.getContext("2d");
+    if (!exportCtx) return;
+
+    const range = getExportRange();
+    const encoder = await createFrameEncoder({
+      container: format,
+      width,
+      height,
+      fps: videoFps,
+      bitrate: videoBitrate,
+      alpha: settings.transparentBackground,
+      audio: await getExportAudio(range),
+    });
+    if (!encoder.hasAudio) {
+      setExportNotice(`This browser can't encode ${format.toUpperCase()} audio; exported without audio.`);
+    }
+    const temporal = createTemporalState();
+    const totalFrames = Math.max(1, Math.floor(range.duration * videoFps));
+
+    try {
       for (let i = 0; i < totalFrames; i++) {
-        video.currentTime = (i / totalFrames) * duration;
-        await new Promise((resolve) => {
-          video.onseeked = resolve;
-        });
+        if (isVideo) await seekVideo(video, range.start + (i / videoFps) * range.playbackRate);
 
+        sourceCtx.clearRect(0, 0, originalWidth, originalHeight);
         sourceCtx.drawImage(video, 0, 0, originalWidth, originalHeight);
-        const asciiChars = convertFrameToASCII(
+        const asciiFrame = convertToASCIIFrame(
           sourceCtx,
           originalWidth,
           originalHeight,
-          settings
+          settings,
+          temporal
         );
-        renderASCIIToCanvas(exportCtx, asciiChars, settings, exportDims.width, exportDims.height);
-
-        const frameCanvas = document.createElement("canvas");
-        frameCanvas.width = exportDims.width;
-        frameCanvas.height = exportDims.height;
-        const frameCtx = frameCanvas.getContext("2d");
-        if (frameCtx) {
-          frameCtx.drawImage(exportCanvas, 0, 0);
-          gif.addFrame(frameCanvas, { delay: 1000 / fps, copy: true });
-        }
+        renderASCIIToCanvas(exportCtx, asciiFrame, settings, width, height, sourceCanvas);
+        await encoder.addFrame(exportCanvas, i);
 
         setExportProgress(Math.round(((i + 1) / totalFrames) * 100));
       }
-    } else {
-      sourceCtx.drawImage(video, 0, 0, originalWidth, originalHeight);
-      const asciiChars = convertFrameToASCII(
-        sourceCtx,
-        originalWidth,
-        originalHeight,
-        settings
-      );
-      renderASCIIToCanvas(exportCtx, asciiChars, settings, exportDims.width, exportDims.height);
-
-      const frameCanvas = document.createElement("canvas");
-      frameCanvas.width = exportDims.width;
-      frameCanvas.height = exportDims.height;
-      const frameCtx = frameCanvas.getContext("2d");
-      if (frameCtx) {
-        frameCtx.drawImage(exportCanvas, 0, 0);
-        gif.addFrame(frameCanvas, { delay: 100, copy: true });
-      }
-      setExportProgress(100);
+      downloadBlob(await encoder.finish(), `ascii-video.${format}`);
+    } catch (error) {
+      encoder.cancel();
+      throw error;
     }
 
-    gif.on("finished", (blob: Blob) => {
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = "ascii-video.gif";
-      a.click();
-      URL.revokeObjectURL(url);
-      setIsExporting(false);
-      setExportProgress(0);
-    });
-
-    gif.render();
+    setIsExporting(false);
+    setExportProgress(0);
   };
 
-  const exportAsVideo = async (format: "mp4" | "webm") => {
+  // Real-time capture for browsers without WebCodecs; timing follows the clock
+  const recordVideo = async (format: VideoContainer) => {
     const sourceCanvas = sourceCanvasRef.current;
     if (!sourceCanvas) return;
 
@@ -351,54 +632,68 @@ export function ASCIIPreview({
     const exportCtx = exportCanvas.getContext("2d");
     if (!exportCtx) return;
 
-    const mimeType = format === "webm" ? "video/webm" : "video/mp4";
-    const stream = exportCanvas.captureStream(30);
-    const mediaRecorder = new MediaRecorder(stream, {
-      mimeType: MediaRecorder.isTypeSupported(mimeType) ? mimeType : "video/webm",
-    });
+    // Browsers that can't record MP4 fall back to WebM; name the file after what was recorded
+    const mimeType = MediaRecorder.isTypeSupported(VIDEO_MIME_TYPES[format])
+      ? VIDEO_MIME_TYPES[format]
+      : VIDEO_MIME_TYPES.webm;
+    const extension = mimeType === VIDEO_MIME_TYPES.mp4 ? "mp4" : "webm";
+    const stream = exportCanvas.captureStream(videoFps);
+    const mediaRecorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: videoBitrate });
     const chunks: Blob[] = [];
+    const temporal = createTemporalState();
+
+    // The soundtrack is played into the recording alongside the canvas
+    const range = getExportRange();
+    const audio = await getExportAudio(range);
+    const audioCtx = audio ? new AudioContext() : null;
+    const audioPlayer = audioCtx?.createBufferSource();
+    if (audioCtx && audioPlayer) {
+      const destination = audioCtx.createMediaStreamDestination();
+      audioPlayer.buffer = audio;
+      audioPlayer.connect(destination);
+      destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+    }
+
+    // Kept alongside any audio notice rather than replacing it
+    if (extension !== format) {
+      const fallback = `This browser can't encode ${format.toUpperCase()}; exported WebM instead.`;
+      setExportNotice((notice) => (notice ? `${fallback} ${notice}` : fallback));
+    }
 
     mediaRecorder.ondataavailable = (e) => {
       if (e.data.size > 0) chunks.push(e.data);
     };
 
     mediaRecorder.onstop = () => {
-      const blob = new Blob(chunks, { type: mimeType });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `ascii-video.${format}`;
-      a.click();
-      URL.revokeObjectURL(url);
+      downloadBlob(new Blob(chunks, { type: mimeType }), `ascii-video.${extension}`);
+      audioCtx?.close();
       setIsExporting(false);
       setExportProgress(0);
     };
 
-    if (isVideo) {
-      video.currentTime = 0;
-      await new Promise((resolve) => {
-        video.onseeked = resolve;
-      });
-    }
+    if (isVideo) await seekVideo(video, 0);
 
     mediaRecorder.start();
+    audioPlayer?.start();
 
     const startTime = Date.now();
-    const duration = (isVideo ? video.duration : 2) * 1000;
+    const duration = range.duration * 1000;
 
     const recordFrame = () => {
       const elapsed = Date.now() - startTime;
       const progress = Math.min(elapsed / duration, 1);
       setExportProgress(Math.round(progress * 100));
 
+      sourceCtx.clearRect(0, 0, originalWidth, originalHeight);
       sourceCtx.drawImage(video, 0, 0, originalWidth, originalHeight);
-      const asciiChars = convertFrameToASCII(
+      const asciiFrame = convertToASCIIFrame(
         sourceCtx,
         originalWidth,
         originalHeight,
-        settings
+        settings,
+        temporal
       );
-      renderASCIIToCanvas(exportCtx, asciiChars, settings, exportDims.width, exportDims.height);
+      renderASCIIToCanvas(exportCtx, asciiFrame, settings, exportDims.width, exportDims.height, sourceCanvas);
 
       if (elapsed < duration) {
         requestAnimationFrame(recordFrame);
@@ -414,6 +709,7 @@ export function ASCIIPreview({
   const handleExport = async () => {
     setIsExporting(true);
     setExportProgress(0);
+    setExportNotice(null);
 
     const wasPlaying = isPlaying;
     setIsPlaying(false);
@@ -422,6 +718,8 @@ export function ASCIIPreview({
     try {
       if (exportFormat === "gif") {
         await exportAsGIF();
+      } else if (exportFormat === "apng" || exportFormat === "webp") {
+        await exportAsAnimatedImage(exportFormat);
       } else {
         await exportAsVideo(exportFormat);
       }
@@ -436,6 +734,242 @@ export function ASCIIPreview({
     }
   };
 
+    // Palette, dithering and transparency only apply to GIF's 256 colours
+    const renderGifEncodingOptions = () => (
+      <>
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label className="text-sm">Quality</Label>
+            <span className="text-xs text-primary">{gifOptions.quality} (lower is better)</span>
+          </div>
+          <Slider
+            value={[gifOptions.quality]}
+            onValueChange={([v]) => updateGifOption("quality", v)}
+            min={1}
+            max={30}
+            step={1}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm">Dithering</Label>
+            <Select
+              value={gifOptions.dither}
+              onValueChange={(v) => updateGifOption("dither", v as GIFDither)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GIF_DITHER_OPTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm">Palette</Label>
+            <Select
+              value={usesGlobalGIFPalette(gifOptions, settings.transparentBackground) ? "global" : "frame"}
+              onValueChange={(v) => updateGifOption("globalPalette", v === "global")}
+              disabled={settings.transparentBackground}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="frame">Per frame</SelectItem>
+                <SelectItem value="global">Global</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {settings.transparentBackground && (
+          <p className="text-xs text-muted-foreground">
+            Transparent GIFs use a palette per frame, so every frame can keep its transparent colour.
+          </p>
+        )}
+        {gifOptions.dither !== "none" && (
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Serpentine scan</Label>
+            <Switch
+              checked={gifOptions.serpentine}
+              onCheckedChange={(v) => updateGifOption("serpentine", v)}
+            />
+          </div>
+        )}
+        {settings.transparentBackground && (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label className="text-sm">Transparency threshold</Label>
+                <span className="text-xs text-primary">{Math.round(gifOptions.transparencyThreshold * 100)}%</span>
+              </div>
+              <Slider
+                value={[gifOptions.transparencyThreshold]}
+                onValueChange={([v]) => updateGifOption("transparencyThreshold", v)}
+                min={0.05}
+                max={1}
+                step={0.05}
+              />
+              <p className="text-xs text-muted-foreground">
+                GIF pixels are either opaque or clear; less opaque edge pixels than this are cleared.
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Blend edges with matte</Label>
+              <Switch
+                checked={gifOptions.matteColor !== null}
+                onCheckedChange={(v) => updateGifOption("matteColor", v ? settings.backgroundColor : null)}
+              />
+            </div>
+            {gifOptions.matteColor !== null && (
+              <div className="flex gap-2">
+                <Input
+                  type="color"
+                  value={gifOptions.matteColor}
+                  onChange={(e) => updateGifOption("matteColor", e.target.value)}
+                  className="w-12 h-9 p-1 cursor-pointer"
+                />
+                <Input
+                  value={gifOptions.matteColor}
+                  onChange={(e) => updateGifOption("matteColor", e.target.value)}
+                  className="flex-1 font-mono text-sm"
+                />
+              </div>
+            )}
+          </>
+        )}
+      </>
+    );
+
+    // Timing and looping, shared by GIF, APNG and animated WebP
+    const renderAnimationOptions = () => {
+      const timeline = getGIFTimeline();
+      const plan = planGIFFrames(gifOptions, timeline);
+      const animated = isVideo || isAnimatedGif;
+
+      return (
+        <div className="space-y-4">
+          {animated && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-sm">Frame rate</Label>
+                  <Select
+                    value={gifOptions.fps.toString()}
+                    onValueChange={(v) => updateGifOption("fps", parseInt(v, 10))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {isAnimatedGif && <SelectItem value="0">Source frames</SelectItem>}
+                      {GIF_FPS_OPTIONS.map((fps) => (
+                        <SelectItem key={fps} value={fps.toString()}>
+                          {fps} fps
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-sm">Max frames</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={gifOptions.maxFrames}
+                    onChange={(e) => updateGifOption("maxFrames", Math.max(1, parseInt(e.target.value, 10) || 1))}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm">Range (seconds)</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={gifOptions.start}
+                    onChange={(e) => updateGifOption("start", Math.max(0, parseFloat(e.target.value) || 0))}
+                    className="w-24"
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    placeholder={timeline.duration.toFixed(1)}
+                    value={gifOptions.end ?? ""}
+                    onChange={(e) => {
+                      const end = parseFloat(e.target.value);
+                      updateGifOption("end", isNaN(end) ? null : Math.max(0, end));
+                    }}
+                    className="w-24"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm">Loop</Label>
+              <Select
+                value={gifOptions.loop}
+                onValueChange={(v) => updateGifOption("loop", v as GIFLoop)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="infinite">Forever</SelectItem>
+                  <SelectItem value="once">Play once</SelectItem>
+                  <SelectItem value="count">Play N times</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {gifOptions.loop === "count" && (
+              <div className="space-y-2">
+                <Label className="text-sm">Plays</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={gifOptions.loopCount}
+                  onChange={(e) => updateGifOption("loopCount", Math.max(1, parseInt(e.target.value, 10) || 1))}
+                />
+              </div>
+            )}
+          </div>
+          {exportFormat === "gif" && renderGifEncodingOptions()}
+          {exportFormat === "webp" && (
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label className="text-sm">Quality</Label>
+                <span className="text-xs text-primary">{Math.round(webpQuality * 100)}%</span>
+              </div>
+              <Slider
+                value={[webpQuality]}
+                onValueChange={([v]) => setWebpQuality(v)}
+                min={0.1}
+                max={1}
+                step={0.05}
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {animated ? (
+              <>
+                {plan.times.length} {plan.times.length === 1 ? "frame" : "frames"} • {plan.duration.toFixed(2)}s
+                {plan.truncated && " • cut short by max frames"}
+              </>
+            ) : (
+              "Still image: 1 frame"
+            )}
+          </p>
+        </div>
+      );
+    };
+
     return (
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -508,8 +1042,8 @@ export function ASCIIPreview({
               />
               <canvas
                 ref={outputCanvasRef}
-                width={originalWidth}
-                height={originalHeight}
+                width={outputSize.width}
+                height={outputSize.height}
                 style={{ width: previewWidth, height: previewHeight, imageRendering: "pixelated" }}
               />
             </div>
@@ -533,6 +1067,7 @@ export function ASCIIPreview({
               <div className="text-sm text-muted-foreground">
                 Exporting... {exportProgress}%
               </div>
+              {exportNotice && <div className="text-xs text-destructive">{exportNotice}</div>}
               <div className="w-48 h-2 bg-muted rounded-full overflow-hidden">
                 <div
                   className="h-full bg-primary transition-all duration-200"
@@ -582,6 +1117,8 @@ export function ASCIIPreview({
                 <SelectItem value="gif">GIF</SelectItem>
                 <SelectItem value="mp4">MP4</SelectItem>
                 <SelectItem value="webm">WebM</SelectItem>
+                <SelectItem value="apng">APNG</SelectItem>
+                <SelectItem value="webp">WebP</SelectItem>
               </SelectContent>
             </Select>
             <Button onClick={() => setShowExportModal(true)} disabled={isExporting} className="cursor-pointer">
@@ -595,6 +1132,9 @@ export function ASCIIPreview({
           Export size: {previewWidth} × {previewHeight}px
           {needsScroll && " • Scroll to view full preview"}
         </div>
+        {exportNotice && !isExporting && (
+          <div className="text-xs text-destructive text-center">{exportNotice}</div>
+        )}
 
         <Dialog open={showExportModal} onOpenChange={setShowExportModal}>
           <DialogContent className="sm:max-w-md">
@@ -644,9 +1184,85 @@ export function ASCIIPreview({
                     <SelectItem value="gif">GIF</SelectItem>
                     <SelectItem value="mp4">MP4</SelectItem>
                     <SelectItem value="webm">WebM</SelectItem>
+                    <SelectItem value="apng">APNG</SelectItem>
+                    <SelectItem value="webp">WebP</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+              {isAnimationFormat(exportFormat) && renderAnimationOptions()}
+              {!isAnimationFormat(exportFormat) && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-sm">Frame rate</Label>
+                    <Select
+                      value={videoFps.toString()}
+                      onValueChange={(v) => setVideoFps(parseInt(v, 10))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VIDEO_FPS_OPTIONS.map((fps) => (
+                          <SelectItem key={fps} value={fps.toString()}>
+                            {fps} fps
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Bitrate</Label>
+                    <Select
+                      value={videoBitrate.toString()}
+                      onValueChange={(v) => setVideoBitrate(parseInt(v, 10))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VIDEO_BITRATE_OPTIONS.map((bitrate) => (
+                          <SelectItem key={bitrate} value={bitrate.toString()}>
+                            {bitrate / 1_000_000} Mbps
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+              {!isAnimationFormat(exportFormat) && (
+                <div className="space-y-2">
+                  <Label className="text-sm">Audio</Label>
+                  <Select
+                    value={audioSource}
+                    onValueChange={(v) => setAudioSource(v as ExportAudioSource)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="source" disabled={!isVideo}>Source audio</SelectItem>
+                      <SelectItem value="none">No audio</SelectItem>
+                      <SelectItem value="file">Audio file</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {audioSource === "file" && (
+                    <>
+                      <Input
+                        type="file"
+                        accept={AUDIO_FILE_ACCEPT}
+                        onChange={(e) => setAudioFile(e.target.files?.[0] ?? null)}
+                        className="text-xs cursor-pointer"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {audioFile
+                          ? `${audioFile.name} plays from its start and is cut to the video's length.`
+                          : "Choose a file to use as the soundtrack."}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
               {(exportWidthOverride || exportHeightOverride) && (
                 <div className="text-sm text-primary">
                   Export size: {getExportDimensions().width} × {getExportDimensions().height}px
@@ -1,9 +1,11 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -13,7 +15,27 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { ASCIISettings, CHARACTER_PRESETS } from "@/lib/ascii-converter";
+import {
+  ASCIISettings,
+  CHARACTER_PRESETS,
+  getActivePalette,
+  usesTemporalThreshold,
+} from "@/lib/ascii-converter";
+import { calibrateCharacterSet } from "@/lib/calibration";
+import { splitGraphemes } from "@/lib/graphemes";
+import { DitherMode, DITHER_MODES } from "@/lib/dither";
+import {
+  BUNDLED_FONTS,
+  FONT_FILE_ACCEPT,
+  FontOption,
+  findMissingGlyphs,
+  getCustomFonts,
+  getFontMetrics,
+  loadFont,
+  registerFontFile,
+} from "@/lib/fonts";
+import { PALETTE_PRESETS, parsePalette } from "@/lib/palettes";
+import { SamplingMode } from "@/lib/sampling";
 import { Plus, Trash2 } from "lucide-react";
 
 interface ControlPanelProps {
@@ -48,6 +70,61 @@ export function ControlPanel({ settings, onSettingsChange }: ControlPanelProps)
     updateSetting("gradientColors", newColors);
   };
 
+  const updateCustomColor = (char: string, color: string) => {
+    updateSetting("customColors", { ...settings.customColors, [char]: color });
+  };
+
+  const customColorChars = Array.from(new Set(splitGraphemes(settings.characterSet)));
+
+  const activePalette = getActivePalette(settings);
+
+  const importPaletteFile = async (file: File) => {
+    const colors = parsePalette(await file.text());
+    if (colors.length === 0) {
+      alert("No colors found in palette file");
+      return;
+    }
+    onSettingsChange({ ...settings, palette: "custom", customPalette: colors });
+  };
+
+  const [customFonts, setCustomFonts] = useState<FontOption[]>(getCustomFonts);
+
+  const calibration = useMemo(
+    () => calibrateCharacterSet(settings.characterSet, getFontMetrics(settings.fontFamily)),
+    [settings.characterSet, settings.fontFamily]
+  );
+  const maxCoverage = Math.max(0, ...calibration.glyphs.map((glyph) => glyph.coverage));
+  const missingGlyphs = useMemo(
+    () => findMissingGlyphs(splitGraphemes(settings.characterSet), settings.fontFamily),
+    [settings.characterSet, settings.fontFamily]
+  );
+
+  // Presets are checked against the active font too, since density order depends on it
+  const uncalibratedPresets = useMemo(() => {
+    const metrics = getFontMetrics(settings.fontFamily);
+    return new Set(
+      Object.entries(CHARACTER_PRESETS)
+        .filter(([, chars]) => chars && !calibrateCharacterSet(chars, metrics).calibrated)
+        .map(([name]) => name)
+    );
+  }, [settings.fontFamily]);
+
+  // Wait for the font so its metrics are measured before the next render
+  const selectFont = async (family: string) => {
+    await loadFont(family);
+    updateSetting("fontFamily", family);
+  };
+
+  const importFontFile = async (file: File) => {
+    try {
+      const font = await registerFontFile(file);
+      setCustomFonts(getCustomFonts());
+      await selectFont(font.family);
+    } catch {
+      alert("Could not load font file");
+    }
+  };
+
   return (
     <div className="w-full h-full bg-card/50 border border-border rounded-xl p-4 space-y-4 scrollbar-thin overflow-y-auto">
       <Tabs defaultValue="characters" className="w-full">
@@ -60,57 +137,329 @@ export function ControlPanel({ settings, onSettingsChange }: ControlPanelProps)
 
         <TabsContent value="characters" className="space-y-4 mt-4">
           <div className="space-y-2">
-            <Label className="text-xs text-muted-foreground">Character Preset</Label>
+            <Label className="text-xs text-muted-foreground">Render Mode</Label>
             <Select
-              value={
-                Object.entries(CHARACTER_PRESETS).find(
-                  ([, v]) => v === settings.characterSet
-                )?.[0] || "custom"
+              value={settings.renderMode}
+              onValueChange={(v) =>
+                updateSetting("renderMode", v as ASCIISettings["renderMode"])
               }
-              onValueChange={(value) => {
-                if (value !== "custom") {
-                  updateSetting("characterSet", CHARACTER_PRESETS[value]);
-                }
-              }}
             >
               <SelectTrigger className="w-full">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="standard">Standard</SelectItem>
-                <SelectItem value="blocks">Blocks</SelectItem>
-                <SelectItem value="detailed">Detailed</SelectItem>
-                <SelectItem value="minimal">Minimal</SelectItem>
-                <SelectItem value="binary">Binary</SelectItem>
-                <SelectItem value="custom">Custom</SelectItem>
+                <SelectItem value="ascii">ASCII</SelectItem>
+                <SelectItem value="braille">Braille</SelectItem>
+                <SelectItem value="half-block">Half Blocks</SelectItem>
+                <SelectItem value="quadrant">Quadrants</SelectItem>
+                <SelectItem value="sextant">Sextants</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          {settings.renderMode === "braille" && (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Dot Threshold</Label>
+                  <span className="text-xs text-primary">{Math.round(settings.brailleThreshold * 100)}%</span>
+                </div>
+                <Slider
+                  value={[settings.brailleThreshold]}
+                  onValueChange={([v]) => updateSetting("brailleThreshold", v)}
+                  min={0.05}
+                  max={0.95}
+                  step={0.05}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Dot Dithering</Label>
+                <Select
+                  value={settings.brailleDitherMode}
+                  onValueChange={(v) => updateSetting("brailleDitherMode", v as DitherMode)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DITHER_MODES.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          {settings.renderMode === "ascii" && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Character Preset</Label>
+                <Select
+                  value={
+                    Object.entries(CHARACTER_PRESETS).find(
+                      ([, v]) => v === settings.characterSet
+                    )?.[0] || "custom"
+                  }
+                  onValueChange={(value) => {
+                    if (value !== "custom") {
+                      updateSetting("characterSet", CHARACTER_PRESETS[value]);
+                    }
+                  }}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="standard">
+                      Standard{uncalibratedPresets.has("standard") && " (unordered)"}
+                    </SelectItem>
+                    <SelectItem value="blocks">
+                      Blocks{uncalibratedPresets.has("blocks") && " (unordered)"}
+                    </SelectItem>
+                    <SelectItem value="detailed">
+                      Detailed{uncalibratedPresets.has("detailed") && " (unordered)"}
+                    </SelectItem>
+                    <SelectItem value="minimal">
+                      Minimal{uncalibratedPresets.has("minimal") && " (unordered)"}
+                    </SelectItem>
+                    <SelectItem value="binary">
+                      Binary{uncalibratedPresets.has("binary") && " (unordered)"}
+                    </SelectItem>
+                    <SelectItem value="custom">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Custom Characters</Label>
+                <Input
+                  value={settings.characterSet}
+                  onChange={(e) => updateSetting("characterSet", e.target.value)}
+                  placeholder="Enter characters (dark to light)"
+                  className="font-mono text-sm"
+                />
+                {calibration.glyphs.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {calibration.glyphs.map(({ char, coverage }) => (
+                      <div
+                        key={char}
+                        className="flex flex-col items-center gap-0.5"
+                        title={`${(coverage * 100).toFixed(1)}% ink`}
+                      >
+                        <div className="w-3 h-8 bg-muted rounded-sm flex items-end overflow-hidden">
+                          <div
+                            className="w-full bg-primary"
+                            style={{ height: `${maxCoverage > 0 ? (coverage / maxCoverage) * 100 : 0}%` }}
+                          />
+                        </div>
+                        <span className="text-xs font-mono leading-none">{char === " " ? "␣" : char}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    {calibration.calibrated
+                      ? "Ordered by ink density for this font."
+                      : "Not in density order for this font."}
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateSetting("characterSet", calibration.ramp)}
+                    disabled={calibration.calibrated}
+                    className="h-7 text-xs cursor-pointer"
+                  >
+                    Calibrate
+                  </Button>
+                </div>
+                {missingGlyphs.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    {settings.fontFamily} has no glyph for {missingGlyphs.join(" ")}. A fallback font
+                    will be used, so shapes and widths may not match.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Character Matching</Label>
+                <Select
+                  value={settings.matchingMode}
+                  onValueChange={(v) =>
+                    updateSetting("matchingMode", v as ASCIISettings["matchingMode"])
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="brightness">Brightness</SelectItem>
+                    <SelectItem value="shape">Shape</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
           <div className="space-y-2">
-            <Label className="text-xs text-muted-foreground">Custom Characters</Label>
+            <Label className="text-xs text-muted-foreground">Font</Label>
+            <Select value={settings.fontFamily} onValueChange={selectFont}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...BUNDLED_FONTS, ...customFonts].map((font) => (
+                  <SelectItem key={font.family} value={font.family}>
+                    {font.label}
+                    {font.kind !== "mono" && (
+                      <span className="text-muted-foreground ml-1">({font.kind})</span>
+                    )}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Input
-              value={settings.characterSet}
-              onChange={(e) => updateSetting("characterSet", e.target.value)}
-              placeholder="Enter characters (dark to light)"
-              className="font-mono text-sm"
+              type="file"
+              accept={FONT_FILE_ACCEPT}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFontFile(file);
+                e.target.value = "";
+              }}
+              className="text-xs cursor-pointer"
             />
+            <p className="text-xs text-muted-foreground">
+              Upload a TTF, OTF or WOFF2 font. Cell shape is measured from the font.
+            </p>
           </div>
 
           <div className="space-y-2">
-            <div className="flex justify-between">
-              <Label className="text-xs text-muted-foreground">Pixel Size</Label>
-              <span className="text-xs text-primary">{settings.pixelSize}px</span>
+            <Label className="text-xs text-muted-foreground">Grid Size</Label>
+            <Select
+              value={settings.gridSizing}
+              onValueChange={(v) => updateSetting("gridSizing", v as ASCIISettings["gridSizing"])}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pixelSize">Pixel Size</SelectItem>
+                <SelectItem value="columns">Columns</SelectItem>
+                <SelectItem value="rows">Rows</SelectItem>
+                <SelectItem value="both">Columns × Rows</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.gridSizing === "pixelSize" && (
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label className="text-xs text-muted-foreground">Pixel Size</Label>
+                <span className="text-xs text-primary">{settings.pixelSize}px</span>
+              </div>
+              <Slider
+                value={[settings.pixelSize]}
+                onValueChange={([v]) => updateSetting("pixelSize", v)}
+                min={2}
+                max={24}
+                step={1}
+              />
             </div>
-            <Slider
-              value={[settings.pixelSize]}
-              onValueChange={([v]) => updateSetting("pixelSize", v)}
-              min={2}
-              max={24}
-              step={1}
-            />
+          )}
+
+          {(settings.gridSizing === "columns" || settings.gridSizing === "both") && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Columns</Label>
+              <Input
+                type="number"
+                min={1}
+                max={1000}
+                value={settings.gridColumns}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value) && value > 0) updateSetting("gridColumns", value);
+                }}
+                className="font-mono text-sm"
+              />
+            </div>
+          )}
+
+          {(settings.gridSizing === "rows" || settings.gridSizing === "both") && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Rows</Label>
+              <Input
+                type="number"
+                min={1}
+                max={1000}
+                value={settings.gridRows}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value) && value > 0) updateSetting("gridRows", value);
+                }}
+                className="font-mono text-sm"
+              />
+            </div>
+          )}
+
+          {settings.gridSizing === "both" && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Fit</Label>
+              <Select
+                value={settings.gridFit}
+                onValueChange={(v) => updateSetting("gridFit", v as ASCIISettings["gridFit"])}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="letterbox">Letterbox</SelectItem>
+                  <SelectItem value="crop">Crop</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Sampling</Label>
+            <Select
+              value={settings.samplingMode}
+              onValueChange={(v) => updateSetting("samplingMode", v as SamplingMode)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="box">Box Average</SelectItem>
+                <SelectItem value="area">Exact Area Average</SelectItem>
+                <SelectItem value="center">Center Point</SelectItem>
+                <SelectItem value="median">Median</SelectItem>
+                <SelectItem value="min">Darkest</SelectItem>
+                <SelectItem value="max">Brightest</SelectItem>
+                <SelectItem value="supersample">Supersampled</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
 
+          {settings.samplingMode === "supersample" && (
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label className="text-xs text-muted-foreground">Samples Per Axis</Label>
+                <span className="text-xs text-primary">
+                  {settings.supersampleFactor}×{settings.supersampleFactor}
+                </span>
+              </div>
+              <Slider
+                value={[settings.supersampleFactor]}
+                onValueChange={([v]) => updateSetting("supersampleFactor", v)}
+                min={2}
+                max={6}
+                step={1}
+              />
+            </div>
+          )}
+
           <div className="flex items-center justify-between">
             <Label className="text-xs text-muted-foreground">Invert Characters</Label>
             <Switch
@@ -136,6 +485,8 @@ export function ControlPanel({ settings, onSettingsChange }: ControlPanelProps)
                 <SelectItem value="original">Original Colors</SelectItem>
                 <SelectItem value="monochrome">Monochrome</SelectItem>
                 <SelectItem value="gradient">Gradient</SelectItem>
+                <SelectItem value="custom">Per Character</SelectItem>
+                <SelectItem value="palette">Retro Palette</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -209,6 +560,110 @@ export function ControlPanel({ settings, onSettingsChange }: ControlPanelProps)
             </div>
           )}
 
+          {settings.colorMode === "custom" && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Fallback Color</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="color"
+                    value={settings.monochromeColor}
+                    onChange={(e) => updateSetting("monochromeColor", e.target.value)}
+                    className="w-12 h-9 p-1 cursor-pointer"
+                  />
+                  <Input
+                    value={settings.monochromeColor}
+                    onChange={(e) => updateSetting("monochromeColor", e.target.value)}
+                    className="flex-1 font-mono text-sm"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Character Colors (dark to light)</Label>
+                {customColorChars.map((char) => {
+                  const color = settings.customColors[char] ?? settings.monochromeColor;
+                  return (
+                    <div key={char} className="flex gap-2 items-center">
+                      <span className="w-8 h-8 flex items-center justify-center rounded-md bg-secondary font-mono text-sm">
+                        {char === " " ? "␣" : char}
+                      </span>
+                      <Input
+                        type="color"
+                        value={color}
+                        onChange={(e) => updateCustomColor(char, e.target.value)}
+                        className="w-10 h-8 p-1 cursor-pointer"
+                      />
+                      <Input
+                        value={color}
+                        onChange={(e) => updateCustomColor(char, e.target.value)}
+                        className="flex-1 font-mono text-xs"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {settings.colorMode === "palette" && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Palette</Label>
+                <Select
+                  value={settings.palette}
+                  onValueChange={(v) => updateSetting("palette", v)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PALETTE_PRESETS).map(([key, preset]) => (
+                      <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {settings.palette === "custom" && (
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Palette Colors (hex list)</Label>
+                  <Textarea
+                    defaultValue={settings.customPalette.join(" ")}
+                    key={settings.customPalette.join(",")}
+                    onBlur={(e) => updateSetting("customPalette", parsePalette(e.target.value))}
+                    placeholder="#0f380f #306230 #8bac0f #9bbc0f"
+                    className="font-mono text-xs min-h-16"
+                  />
+                  <Input
+                    type="file"
+                    accept=".gpl,.hex,.txt"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importPaletteFile(file);
+                      e.target.value = "";
+                    }}
+                    className="text-xs cursor-pointer"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Import a GIMP .gpl file or a list of hex colors.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-0.5">
+                {activePalette.map((color, index) => (
+                  <div
+                    key={index}
+                    className="w-4 h-4 rounded-sm"
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label className="text-xs text-muted-foreground">Background Color</Label>
             <div className="flex gap-2">
@@ -283,19 +738,332 @@ export function ControlPanel({ settings, onSettingsChange }: ControlPanelProps)
                 <SelectItem value="screen">Screen</SelectItem>
                 <SelectItem value="overlay">Overlay</SelectItem>
                 <SelectItem value="difference">Difference</SelectItem>
+                <SelectItem value="soft-light">Soft Light</SelectItem>
+                <SelectItem value="color-dodge">Color Dodge</SelectItem>
+                <SelectItem value="color-burn">Color Burn</SelectItem>
+                <SelectItem value="hue">Hue</SelectItem>
+                <SelectItem value="saturation">Saturation</SelectItem>
+                <SelectItem value="luminosity">Luminosity</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Blend Against</Label>
+            <Select
+              value={settings.blendBackground}
+              onValueChange={(v) =>
+                updateSetting("blendBackground", v as ASCIISettings["blendBackground"])
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="solid">Background Color</SelectItem>
+                <SelectItem value="original">Original Frame</SelectItem>
+                <SelectItem value="blurred">Blurred Original</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.blendBackground !== "solid" && (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Underlay Opacity</Label>
+                  <span className="text-xs text-primary">{Math.round(settings.underlayOpacity * 100)}%</span>
+                </div>
+                <Slider
+                  value={[settings.underlayOpacity]}
+                  onValueChange={([v]) => updateSetting("underlayOpacity", v)}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                />
+              </div>
+
+              {settings.blendBackground === "blurred" && (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label className="text-xs text-muted-foreground">Underlay Blur</Label>
+                    <span className="text-xs text-primary">{settings.underlayBlur}px</span>
+                  </div>
+                  <Slider
+                    value={[settings.underlayBlur]}
+                    onValueChange={([v]) => updateSetting("underlayBlur", v)}
+                    min={1}
+                    max={40}
+                    step={1}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Underlay Darken</Label>
+                  <span className="text-xs text-primary">{Math.round(settings.underlayDarken * 100)}%</span>
+                </div>
+                <Slider
+                  value={[settings.underlayDarken]}
+                  onValueChange={([v]) => updateSetting("underlayDarken", v)}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Underlay Desaturate</Label>
+                  <span className="text-xs text-primary">{Math.round(settings.underlayDesaturate * 100)}%</span>
+                </div>
+                <Slider
+                  value={[settings.underlayDesaturate]}
+                  onValueChange={([v]) => updateSetting("underlayDesaturate", v)}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Dithering</Label>
+            <Select
+              value={settings.ditherMode}
+              onValueChange={(v) => updateSetting("ditherMode", v as DitherMode)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DITHER_MODES.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
+
+          {settings.ditherMode !== "none" && (
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label className="text-xs text-muted-foreground">Dither Strength</Label>
+                <span className="text-xs text-primary">{Math.round(settings.ditherStrength * 100)}%</span>
+              </div>
+              <Slider
+                value={[settings.ditherStrength]}
+                onValueChange={([v]) => updateSetting("ditherStrength", v)}
+                min={0}
+                max={1}
+                step={0.05}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <Label className="text-xs text-muted-foreground">Alpha Threshold</Label>
+              <span className="text-xs text-primary">{Math.round(settings.alphaThreshold * 100)}%</span>
+            </div>
+            <Slider
+              value={[settings.alphaThreshold]}
+              onValueChange={([v]) => updateSetting("alphaThreshold", v)}
+              min={0}
+              max={1}
+              step={0.05}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Keying</Label>
+            <Select
+              value={settings.keyMode}
+              onValueChange={(v) =>
+                updateSetting("keyMode", v as ASCIISettings["keyMode"])
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                <SelectItem value="chroma">Chroma Key</SelectItem>
+                <SelectItem value="luma">Luma Key</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.keyMode === "chroma" && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Key Color</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="color"
+                    value={settings.chromaKeyColor}
+                    onChange={(e) => updateSetting("chromaKeyColor", e.target.value)}
+                    className="w-12 h-9 p-1 cursor-pointer"
+                  />
+                  <Input
+                    value={settings.chromaKeyColor}
+                    onChange={(e) => updateSetting("chromaKeyColor", e.target.value)}
+                    className="flex-1 font-mono text-sm"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Key Tolerance</Label>
+                  <span className="text-xs text-primary">{Math.round(settings.keyTolerance * 100)}%</span>
+                </div>
+                <Slider
+                  value={[settings.keyTolerance]}
+                  onValueChange={([v]) => updateSetting("keyTolerance", v)}
+                  min={0}
+                  max={0.6}
+                  step={0.01}
+                />
+              </div>
+            </>
+          )}
+
+          {settings.keyMode === "luma" && (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Luma Threshold</Label>
+                  <span className="text-xs text-primary">{Math.round(settings.lumaKeyThreshold * 100)}%</span>
+                </div>
+                <Slider
+                  value={[settings.lumaKeyThreshold]}
+                  onValueChange={([v]) => updateSetting("lumaKeyThreshold", v)}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Key Out Bright Areas</Label>
+                <Switch
+                  checked={settings.lumaKeyAbove}
+                  onCheckedChange={(v) => updateSetting("lumaKeyAbove", v)}
+                />
+              </div>
+            </>
+          )}
+
+          {settings.keyMode !== "none" && (
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label className="text-xs text-muted-foreground">Key Softness</Label>
+                <span className="text-xs text-primary">{Math.round(settings.keySoftness * 100)}%</span>
+              </div>
+              <Slider
+                value={[settings.keySoftness]}
+                onValueChange={([v]) => updateSetting("keySoftness", v)}
+                min={0}
+                max={0.3}
+                step={0.01}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Edge Detection</Label>
+            <Switch
+              checked={settings.edgeDetection}
+              onCheckedChange={(v) => updateSetting("edgeDetection", v)}
+            />
+          </div>
+
+          {settings.edgeDetection && (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Edge Threshold</Label>
+                  <span className="text-xs text-primary">{Math.round(settings.edgeThreshold * 100)}%</span>
+                </div>
+                <Slider
+                  value={[settings.edgeThreshold]}
+                  onValueChange={([v]) => updateSetting("edgeThreshold", v)}
+                  min={0.01}
+                  max={0.5}
+                  step={0.01}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Edges Only</Label>
+                <Switch
+                  checked={settings.edgesOnly}
+                  onCheckedChange={(v) => updateSetting("edgesOnly", v)}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Temporal Smoothing</Label>
+            <Switch
+              checked={settings.temporalSmoothing}
+              onCheckedChange={(v) => updateSetting("temporalSmoothing", v)}
+            />
+          </div>
+
+          {settings.temporalSmoothing && (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Smoothing</Label>
+                  <span className="text-xs text-primary">{Math.round(settings.temporalSmoothingAmount * 100)}%</span>
+                </div>
+                <Slider
+                  value={[settings.temporalSmoothingAmount]}
+                  onValueChange={([v]) => updateSetting("temporalSmoothingAmount", v)}
+                  min={0}
+                  max={0.95}
+                  step={0.05}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label className="text-xs text-muted-foreground">Change Threshold</Label>
+                  <span className="text-xs text-primary">{settings.temporalThreshold.toFixed(2)}</span>
+                </div>
+                <Slider
+                  value={[settings.temporalThreshold]}
+                  onValueChange={([v]) => updateSetting("temporalThreshold", v)}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  disabled={!usesTemporalThreshold(settings)}
+                />
+                {!usesTemporalThreshold(settings) && (
+                  <p className="text-xs text-muted-foreground">
+                    No effect with dithering or shape matching; only the smoothing applies.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
         </TabsContent>
 
-        <TabsContent value="output" className="space-y-4 mt-4">
+        <TabsContent value="output"className="space-y-4 mt-4">
           <div className="p-3 bg-muted/30 rounded-lg space-y-2">
             <p className="text-xs text-muted-foreground">
               Export your ASCII video in the same dimensions as the input file.
-              Choose from GIF, MP4, or WebM formats.
+              Choose from GIF, APNG, animated WebP, MP4, or WebM formats.
             </p>
             <p className="text-xs text-primary">
-              Transparent backgrounds are supported in GIF and WebM exports.
+              Transparent backgrounds are supported in GIF, APNG, WebP and WebM exports.
+            </p>
+            <p className="text-xs text-muted-foreground">
+              MP4 and WebM exports keep the source audio, or can use a separate audio file.
             </p>
           </div>
         </TabsContent>
@@ -0,0 +1,238 @@
+import { crc32, deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { AnimatedImageFrame, encodeAnimatedImage } from './animated-image';
+
+const ascii = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(Buffer.from(type, 'latin1'), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// A real RGBA PNG, one row filled with `shade`, with an sRGB chunk like browsers write
+function stillPNG(shade: number, width = 2): Blob {
+  const header = new DataView(new ArrayBuffer(13));
+  header.setUint32(0, width);
+  header.setUint32(4, 1);
+  header.setUint8(8, 8);
+  header.setUint8(9, 6);
+  const pixels = Array.from({ length: width }, () => [shade, shade, shade, 255]);
+  const scanline = Uint8Array.from([0, ...pixels.flat()]);
+  const png = concat([
+    Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', new Uint8Array(header.buffer)),
+    pngChunk('sRGB', Uint8Array.of(0)),
+    pngChunk('IDAT', new Uint8Array(deflateSync(scanline))),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+  return new Blob([png]);
+}
+
+interface ParsedChunk {
+  type: string;
+  data: Uint8Array;
+  crcValid: boolean;
+}
+
+function readPNG(bytes: Uint8Array): ParsedChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: ParsedChunk[] = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    const crc = view.getUint32(offset + 8 + length);
+    chunks.push({
+      type: ascii(bytes, offset + 4),
+      data,
+      crcValid: crc === crc32(bytes.subarray(offset + 4, offset + 8 + length)),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function findChunk<T extends { type: string }>(chunks: T[], type: string): T {
+  const chunk = chunks.find((candidate) => candidate.type === type);
+  if (!chunk) throw new Error(`No ${type} chunk`);
+  return chunk;
+}
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(Buffer.from(type, 'latin1'), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+// A still WebP as a browser's lossy encoder lays it out; the payloads are stand-ins
+function stillWebP(payload: number[]): Blob {
+  const body = concat([
+    riffChunk('VP8X', new Uint8Array(10)),
+    riffChunk('ALPH', Uint8Array.of(1, 2, 3)),
+    riffChunk('VP8 ', Uint8Array.from(payload)),
+    riffChunk('EXIF', Uint8Array.of(9)),
+  ]);
+  const header = new Uint8Array(12);
+  header.set(Buffer.from('RIFF', 'latin1'), 0);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(Buffer.from('WEBP', 'latin1'), 8);
+  return new Blob([concat([header, body])]);
+}
+
+function readRIFF(bytes: Uint8Array, start: number, end: number): { type: string; data: Uint8Array }[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = start; offset < end; ) {
+    const length = view.getUint32(offset + 4, true);
+    chunks.push({ type: ascii(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length & 1);
+  }
+  return chunks;
+}
+
+const uint24 = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('encodeAnimatedImage as APNG', () => {
+  const frames: AnimatedImageFrame[] = [
+    { image: stillPNG(0), delay: 70 },
+    { image: stillPNG(128), delay: 60 },
+    { image: stillPNG(255), delay: 1500 },
+  ];
+
+  it('lays out the animation chunks around the first frame', async () => {
+    const blob = await encodeAnimatedImage('apng', frames, { width: 2, height: 1, plays: 0 });
+    expect(blob.type).toBe('image/apng');
+    const chunks = readPNG(await toBytes(blob));
+
+    expect(chunks.map(({ type }) => type)).toEqual([
+      'IHDR', 'sRGB', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND',
+    ]);
+    expect(chunks.every(({ crcValid }) => crcValid)).toBe(true);
+  });
+
+  it('counts frames and plays and numbers every sequence chunk', async () => {
+    const blob = await encodeAnimatedImage('apng', frames, { width: 2, height: 1, plays: 3 });
+    const chunks = readPNG(await toBytes(blob));
+    const view = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    const actl = view(findChunk(chunks, 'acTL').data);
+    expect([actl.getUint32(0), actl.getUint32(4)]).toEqual([3, 3]);
+
+    const sequenced = chunks.filter(({ type }) => type === 'fcTL' || type === 'fdAT');
+    expect(sequenced.map(({ data }) => view(data).getUint32(0))).toEqual([0, 1, 2, 3, 4]);
+
+    const controls = chunks.filter(({ type }) => type === 'fcTL').map(({ data }) => view(data));
+    expect(controls.map((fctl) => [fctl.getUint32(4), fctl.getUint32(8)])).toEqual([
+      [2, 1], [2, 1], [2, 1],
+    ]);
+    expect(controls.map((fctl) => fctl.getUint16(20) / fctl.getUint16(22))).toEqual([0.07, 0.06, 1.5]);
+  });
+
+  it("moves later frames' image data into fdAT unchanged", async () => {
+    const blob = await encodeAnimatedImage('apng', frames, { width: 2, height: 1, plays: 0 });
+    const fdat = readPNG(await toBytes(blob)).filter(({ type }) => type === 'fdAT');
+    const source = findChunk(readPNG(await toBytes(frames[1].image)), 'IDAT');
+    expect(Array.from(fdat[0].data.subarray(4))).toEqual(Array.from(source.data));
+  });
+
+  it('stores long delays in coarser units instead of wrapping them', async () => {
+    const long = [70000, 900000, 1e8].map((delay) => ({ image: stillPNG(0), delay }));
+    const blob = await encodeAnimatedImage('apng', long, { width: 2, height: 1, plays: 0 });
+    const controls = readPNG(await toBytes(blob))
+      .filter(({ type }) => type === 'fcTL')
+      .map(({ data }) => new DataView(data.buffer, data.byteOffset, data.byteLength));
+
+    expect(controls.map((fctl) => [fctl.getUint16(20), fctl.getUint16(22)])).toEqual([
+      [7000, 100], [9000, 10], [0xffff, 1],
+    ]);
+  });
+
+  it("rejects frames whose header doesn't match the first frame's", async () => {
+    const mixed = [{ image: stillPNG(0), delay: 50 }, { image: stillPNG(0, 3), delay: 50 }];
+    await expect(
+      encodeAnimatedImage('apng', mixed, { width: 2, height: 1, plays: 0 })
+    ).rejects.toThrow("doesn't match the first frame");
+  });
+});
+
+describe('encodeAnimatedImage as WebP', () => {
+  const frames: AnimatedImageFrame[] = [
+    { image: stillWebP([1, 2, 3, 4]), delay: 40 },
+    { image: stillWebP([5, 6, 7]), delay: 0x1000000 },
+  ];
+
+  it('writes a RIFF header sized to the whole file', async () => {
+    const bytes = await toBytes(
+      await encodeAnimatedImage('webp', frames, { width: 300, height: 200, plays: 0 })
+    );
+    expect(ascii(bytes, 0)).toBe('RIFF');
+    expect(ascii(bytes, 8)).toBe('WEBP');
+    expect(new DataView(bytes.buffer).getUint32(4, true)).toBe(bytes.length - 8);
+  });
+
+  it('flags animation and alpha and stores the canvas size and loop count', async () => {
+    const bytes = await toBytes(
+      await encodeAnimatedImage('webp', frames, { width: 300, height: 200, plays: 2 })
+    );
+    const [vp8x, anim, ...rest] = readRIFF(bytes, 12, bytes.length);
+
+    expect(vp8x.type).toBe('VP8X');
+    expect(vp8x.data[0]).toBe(0x12);
+    expect([uint24(vp8x.data, 4), uint24(vp8x.data, 7)]).toEqual([299, 199]);
+    expect(anim.type).toBe('ANIM');
+    expect(new DataView(anim.data.buffer, anim.data.byteOffset).getUint16(4, true)).toBe(2);
+    expect(rest.map(({ type }) => type)).toEqual(['ANMF', 'ANMF']);
+  });
+
+  it("wraps each frame's image chunks, padded, in an ANMF", async () => {
+    const bytes = await toBytes(
+      await encodeAnimatedImage('webp', frames, { width: 300, height: 200, plays: 0 })
+    );
+    const frameChunks = readRIFF(bytes, 12, bytes.length).filter(({ type }) => type === 'ANMF');
+
+    const [first, second] = frameChunks.map(({ data }) => ({
+      width: uint24(data, 6) + 1,
+      height: uint24(data, 9) + 1,
+      duration: uint24(data, 12),
+      flags: data[15],
+      chunks: readRIFF(data, 16, data.length),
+    }));
+    expect(first).toMatchObject({ width: 300, height: 200, duration: 40, flags: 0x02 });
+    // Only the image data is carried over, not the still's own VP8X or metadata
+    expect(first.chunks.map(({ type }) => type)).toEqual(['ALPH', 'VP8 ']);
+    expect(Array.from(first.chunks[1].data)).toEqual([1, 2, 3, 4]);
+    expect(Array.from(second.chunks[1].data)).toEqual([5, 6, 7]);
+    // Durations are capped to their 24 bits
+    expect(second.duration).toBe(0xffffff);
+  });
+
+  it('rejects frames that are not WebP', async () => {
+    await expect(
+      encodeAnimatedImage('webp', [{ image: stillPNG(0), delay: 10 }], { width: 2, height: 1, plays: 0 })
+    ).rejects.toThrow('not a WebP');
+  });
+});
+
+it('rejects an empty frame list', async () => {
+  await expect(encodeAnimatedImage('apng', [], { width: 1, height: 1, plays: 0 })).rejects.toThrow();
+});
@@ -0,0 +1,269 @@
+/**
+ * Assembles animated PNG and animated WebP files from still frames the
+ * browser encodes with canvas.toBlob(). Both keep full 24-bit colour and an
+ * 8-bit alpha channel, unlike GIF.
+ */
+
+export type AnimatedImageFormat = 'apng' | 'webp';
+
+export const ANIMATED_IMAGE_TYPES: Record<AnimatedImageFormat, { mime: string; extension: string }> = {
+  apng: { mime: 'image/apng', extension: 'png' },
+  webp: { mime: 'image/webp', extension: 'webp' },
+};
+
+export interface AnimatedImageFrame {
+  // A still PNG or WebP of the frame, as produced by canvas.toBlob()
+  image: Blob;
+  // Display time in milliseconds
+  delay: number;
+}
+
+export interface AnimatedImageOptions {
+  width: number;
+  height: number;
+  // Number of times the animation plays; 0 loops forever
+  plays: number;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))),
+      type,
+      quality
+    );
+  });
+}
+
+// Browsers that can't encode WebP silently hand back a PNG instead
+export function supportsWebPEncoding(): boolean {
+  if (typeof document === 'undefined') return false;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  return canvas.toDataURL('image/webp').startsWith('data:image/webp');
+}
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function chunkType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function writeType(target: Uint8Array, offset: number, type: string): void {
+  for (let i = 0; i < 4; i++) target[offset + i] = type.charCodeAt(i);
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// Colour space chunks carried over from the first frame
+const PNG_COLOR_CHUNKS = new Set(['sRGB', 'gAMA', 'cHRM', 'iCCP']);
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readPNGChunks(bytes: Uint8Array): Chunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = chunkType(bytes, offset + 4);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    // Length, type, data and CRC
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  writeType(chunk, 4, type);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// fcTL delays are a 16-bit fraction of a second; long delays trade precision
+// for range instead of wrapping
+function getAPNGDelay(delay: number): [number, number] {
+  for (const denominator of [1000, 100, 10, 1]) {
+    const numerator = Math.round((delay * denominator) / 1000);
+    if (numerator <= 0xffff) return [numerator, denominator];
+  }
+  return [0xffff, 1];
+}
+
+/**
+ * Builds an APNG: the first frame's IDAT doubles as the default image, and
+ * every later frame's IDAT data moves into fdAT chunks. Frames replace the
+ * whole canvas, alpha included.
+ */
+async function encodeAPNG(frames: AnimatedImageFrame[], options: AnimatedImageOptions): Promise<Blob> {
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+  let sequence = 0;
+  let firstHeader: Uint8Array | null = null;
+
+  for (let index = 0; index < frames.length; index++) {
+    const chunks = readPNGChunks(new Uint8Array(await frames[index].image.arrayBuffer()));
+    const header = chunks.find((chunk) => chunk.type === 'IHDR');
+    if (!header) throw new Error('Frame is not a PNG');
+
+    if (!firstHeader) {
+      firstHeader = header.data;
+      parts.push(pngChunk('IHDR', header.data));
+      for (const { type, data } of chunks) {
+        if (PNG_COLOR_CHUNKS.has(type)) parts.push(pngChunk(type, data));
+      }
+
+      const actl = new DataView(new ArrayBuffer(8));
+      actl.setUint32(0, frames.length);
+      actl.setUint32(4, options.plays);
+      parts.push(pngChunk('acTL', new Uint8Array(actl.buffer)));
+    } else if (!sameBytes(header.data, firstHeader)) {
+      // fdAT data is decoded with the first frame's size and pixel format
+      throw new Error(`Frame ${index + 1} doesn't match the first frame's size or pixel format`);
+    }
+
+    const [delayNumerator, delayDenominator] = getAPNGDelay(frames[index].delay);
+    const fctl = new DataView(new ArrayBuffer(26));
+    fctl.setUint32(0, sequence++);
+    fctl.setUint32(4, options.width);
+    fctl.setUint32(8, options.height);
+    // x and y offsets stay 0
+    fctl.setUint16(20, delayNumerator);
+    fctl.setUint16(22, delayDenominator);
+    // dispose_op NONE, blend_op SOURCE: each frame overwrites the last
+    fctl.setUint8(24, 0);
+    fctl.setUint8(25, 0);
+    parts.push(pngChunk('fcTL', new Uint8Array(fctl.buffer)));
+
+    for (const { type, data } of chunks) {
+      if (type !== 'IDAT') continue;
+      if (index === 0) {
+        parts.push(pngChunk('IDAT', data));
+        continue;
+      }
+      const fdat = new Uint8Array(4 + data.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(data, 4);
+      parts.push(pngChunk('fdAT', fdat));
+    }
+  }
+
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return new Blob(parts as BlobPart[], { type: ANIMATED_IMAGE_TYPES.apng.mime });
+}
+
+function readWebPChunks(bytes: Uint8Array): Chunk[] {
+  if (chunkType(bytes, 0) !== 'RIFF' || chunkType(bytes, 8) !== 'WEBP') {
+    throw new Error('Frame is not a WebP image');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset + 4, true);
+    chunks.push({ type: chunkType(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + length) });
+    // Chunks are padded to an even length
+    offset += 8 + length + (length & 1);
+  }
+  return chunks;
+}
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  writeType(chunk, 0, type);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function setUint24(view: DataView, offset: number, value: number): void {
+  view.setUint8(offset, value & 0xff);
+  view.setUint8(offset + 1, (value >> 8) & 0xff);
+  view.setUint8(offset + 2, (value >> 16) & 0xff);
+}
+
+// WebP frame durations are 24-bit milliseconds
+const MAX_WEBP_DURATION = 0xffffff;
+
+/**
+ * Builds an animated WebP: a VP8X header with the animation and alpha flags,
+ * an ANIM chunk for looping and one ANMF chunk per frame wrapping that
+ * frame's own ALPH/VP8/VP8L data.
+ */
+async function encodeWebP(frames: AnimatedImageFrame[], options: AnimatedImageOptions): Promise<Blob> {
+  const body: Uint8Array[] = [];
+
+  const vp8x = new DataView(new ArrayBuffer(10));
+  // Animation and alpha flags
+  vp8x.setUint8(0, 0x02 | 0x10);
+  setUint24(vp8x, 4, options.width - 1);
+  setUint24(vp8x, 7, options.height - 1);
+  body.push(riffChunk('VP8X', new Uint8Array(vp8x.buffer)));
+
+  // Transparent background, loop count as given (0 is forever)
+  const anim = new DataView(new ArrayBuffer(6));
+  anim.setUint16(4, Math.min(0xffff, options.plays), true);
+  body.push(riffChunk('ANIM', new Uint8Array(anim.buffer)));
+
+  for (const frame of frames) {
+    const chunks = readWebPChunks(new Uint8Array(await frame.image.arrayBuffer()));
+    const image = chunks
+      .filter(({ type }) => type === 'ALPH' || type === 'VP8 ' || type === 'VP8L')
+      .map(({ type, data }) => riffChunk(type, data));
+
+    const header = new DataView(new ArrayBuffer(16));
+    // x and y offsets stay 0
+    setUint24(header, 6, options.width - 1);
+    setUint24(header, 9, options.height - 1);
+    setUint24(header, 12, Math.min(MAX_WEBP_DURATION, Math.round(frame.delay)));
+    // Don't blend with the previous frame, so transparent pixels stay transparent
+    header.setUint8(15, 0x02);
+
+    const payloadLength = image.reduce((total, chunk) => total + chunk.length, 16);
+    const payload = new Uint8Array(payloadLength);
+    payload.set(new Uint8Array(header.buffer), 0);
+    let offset = 16;
+    for (const chunk of image) {
+      payload.set(chunk, offset);
+      offset += chunk.length;
+    }
+    body.push(riffChunk('ANMF', payload));
+  }
+
+  const size = body.reduce((total, chunk) => total + chunk.length, 4);
+  const riff = new Uint8Array(12);
+  writeType(riff, 0, 'RIFF');
+  new DataView(riff.buffer).setUint32(4, size, true);
+  writeType(riff, 8, 'WEBP');
+  return new Blob([riff, ...body] as BlobPart[], { type: ANIMATED_IMAGE_TYPES.webp.mime });
+}
+
+export function encodeAnimatedImage(
+  format: AnimatedImageFormat,
+  frames: AnimatedImageFrame[],
+  options: AnimatedImageOptions
+): Promise<Blob> {
+  if (frames.length === 0) return Promise.reject(new Error('No frames to encode'));
+  return format === 'apng' ? encodeAPNG(frames, options) : encodeWebP(frames, options);
+}
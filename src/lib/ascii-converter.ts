@@ -1,33 +1,166 @@
+import {
+  rasterizeGlyphs,
+  createScratchContext,
+  GlyphMetrics,
+  ScratchContext,
+} from './glyph-raster';
+import { getFontMetrics } from './fonts';
+import { drawCellGlyph, getGlyphBlitter, glyphKey } from './glyph-atlas';
+import { isWideGrapheme, splitGraphemes } from './graphemes';
+import {
+  ASCIIChar,
+  ASCIIFrame,
+  ASCIIGridLayout,
+  CONTINUATION_GLYPH,
+  createFrameWriter,
+  frameToASCIIChars,
+  hexToPacked,
+  packRGBA,
+  packedAlpha,
+  packedToHex,
+  withAlpha,
+} from './ascii-frame';
+import { computeLuminance, detectEdgeCharacter } from './edge-detection';
+import { DitherMode, ditherGrid, ditherLevels } from './dither';
+import { PALETTE_PRESETS, getPaletteMatcher } from './palettes';
+import { chromaKeyAlpha, lumaKeyAlpha } from './keying';
+import { MOSAIC_LAYOUTS, MosaicLayout } from './mosaic';
+import { PixelSample, SamplingMode, sampleRegion } from './sampling';
+import {
+  TemporalState,
+  prepareTemporalState,
+  stableBit,
+  smoothValue,
+  stableIndex,
+} from './temporal';
+
+export type { ASCIIChar, ASCIIFrame, ASCIIGridLayout } from './ascii-frame';
+
 export interface ASCIISettings {
+  renderMode: 'ascii' | 'braille' | 'half-block' | 'quadrant' | 'sextant';
   characterSet: string;
+  matchingMode: 'brightness' | 'shape';
   pixelSize: number;
-  colorMode: 'original' | 'monochrome' | 'gradient' | 'custom';
+  // How the cell grid is sized: from pixelSize, or from a target column/row count
+  gridSizing: 'pixelSize' | 'columns' | 'rows' | 'both';
+  gridColumns: number;
+  gridRows: number;
+  // With both counts fixed: pad the grid around the source, or crop the source
+  gridFit: 'letterbox' | 'crop';
+  samplingMode: SamplingMode;
+  // Samples per axis for the 'supersample' strategy
+  supersampleFactor: number;
+  colorMode: 'original' | 'monochrome' | 'gradient' | 'custom' | 'palette';
   monochromeColor: string;
   gradientColors: string[];
+  // Colour per character of the set for the 'custom' colour mode
+  customColors: Record<string, string>;
+  // Key of PALETTE_PRESETS, or 'custom' to use customPalette
+  palette: string;
+  customPalette: string[];
   backgroundColor: string;
   transparentBackground: boolean;
-  blendMode: 'normal' | 'multiply' | 'screen' | 'overlay' | 'difference';
+  // Compositing of the glyph layer onto the background layer
+  blendMode: BlendMode;
+  blendBackground: 'solid' | 'original' | 'blurred';
+  // Styling of the source frame when it is drawn underneath the glyphs
+  underlayOpacity: number;
+  underlayBlur: number;
+  underlayDarken: number;
+  underlayDesaturate: number;
   contrast: number;
   brightness: number;
   invert: boolean;
+  edgeDetection: boolean;
+  edgeThreshold: number;
+  edgesOnly: boolean;
+  ditherMode: DitherMode;
+  ditherStrength: number;
+  keyMode: 'none' | 'chroma' | 'luma';
+  chromaKeyColor: string;
+  // Tolerance/softness are fractions of the chroma range (chroma key) or of
+  // full luminance (luma key)
+  keyTolerance: number;
+  keySoftness: number;
+  lumaKeyThreshold: number;
+  lumaKeyAbove: boolean;
+  // Cells whose source opacity (0-1) falls below this are left transparent
+  alphaThreshold: number;
+  // Carry cell state across video frames to stop glyphs flickering
+  temporalSmoothing: boolean;
+  // Weight (0-1) each cell's colour keeps from the previous frame
+  temporalSmoothingAmount: number;
+  // Ramp steps past a boundary before a cell switches glyph
+  temporalThreshold: number;
+  brailleThreshold: number;
+  brailleDitherMode: DitherMode;
+  // Bundled or uploaded font family; its measured cell shape drives sampling
+  fontFamily: string;
   fontSize: number;
 }
 
 export const DEFAULT_SETTINGS: ASCIISettings = {
+  renderMode: 'ascii',
   characterSet: '.:-=+*#%@',
+  matchingMode: 'brightness',
   pixelSize: 8,
+  gridSizing: 'pixelSize',
+  gridColumns: 120,
+  gridRows: 40,
+  gridFit: 'letterbox',
+  samplingMode: 'box',
+  supersampleFactor: 3,
   colorMode: 'original',
   monochromeColor: '#00ff88',
   gradientColors: ['#00ff88', '#ff00ff', '#00ffff'],
+  customColors: {},
+  palette: 'pico8',
+  customPalette: [],
   backgroundColor: '#0a0a0f',
   transparentBackground: false,
   blendMode: 'normal',
+  blendBackground: 'solid',
+  underlayOpacity: 1,
+  underlayBlur: 12,
+  underlayDarken: 0,
+  underlayDesaturate: 0,
   contrast: 1,
   brightness: 1,
   invert: false,
+  edgeDetection: false,
+  edgeThreshold: 0.15,
+  edgesOnly: false,
+  ditherMode: 'none',
+  ditherStrength: 1,
+  keyMode: 'none',
+  chromaKeyColor: '#00ff00',
+  keyTolerance: 0.15,
+  keySoftness: 0.05,
+  lumaKeyThreshold: 0.1,
+  lumaKeyAbove: false,
+  alphaThreshold: 0.5,
+  temporalSmoothing: false,
+  temporalSmoothingAmount: 0.5,
+  temporalThreshold: 0.25,
+  brailleThreshold: 0.5,
+  brailleDitherMode: 'floyd-steinberg',
+  fontFamily: 'JetBrains Mono',
   fontSize: 10,
 };
 
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'difference'
+  | 'soft-light'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hue'
+  | 'saturation'
+  | 'luminosity';
+
 export const CHARACTER_PRESETS: Record<string, string> = {
   standard: '.:-=+*#%@',
   blocks: '░▒▓█',
@@ -37,8 +170,104 @@ export const CHARACTER_PRESETS: Record<string, string> = {
   custom: '',
 };
 
-// Standard monospace font aspect ratio (width / height)
-const CHAR_ASPECT_RATIO = 0.6;
+/**
+ * Derives the cell grid for a source frame. Cells always keep the glyph aspect
+ * ratio, and any leftover margin is split evenly around the grid.
+ */
+export function computeGridLayout(
+  width: number,
+  height: number,
+  settings: ASCIISettings
+): ASCIIGridLayout {
+  const aspect = getFontMetrics(settings.fontFamily).aspectRatio;
+  const targetCols = Math.max(1, Math.round(settings.gridColumns));
+  const targetRows = Math.max(1, Math.round(settings.gridRows));
+
+  let stepX: number;
+  let stepY: number;
+  let cols: number;
+  let rows: number;
+
+  switch (settings.gridSizing) {
+    case 'columns':
+      cols = targetCols;
+      stepX = width / cols;
+      stepY = stepX / aspect;
+      rows = Math.max(1, Math.floor(height / stepY));
+      break;
+    case 'rows':
+      rows = targetRows;
+      stepY = height / rows;
+      stepX = stepY * aspect;
+      cols = Math.max(1, Math.floor(width / stepX));
+      break;
+    case 'both': {
+      cols = targetCols;
+      rows = targetRows;
+      // Letterbox fits the whole source inside the grid; crop fills the grid
+      const fitY = Math.max(height / rows, width / (cols * aspect));
+      const fillY = Math.min(height / rows, width / (cols * aspect));
+      stepY = settings.gridFit === 'crop' ? fillY : fitY;
+      stepX = stepY * aspect;
+      break;
+    }
+    default:
+      // To maintain aspect ratio, we sample blocks that match the character's aspect ratio
+      stepX = settings.pixelSize;
+      stepY = settings.pixelSize / aspect;
+      cols = Math.floor(width / stepX);
+      rows = Math.floor(height / stepY);
+  }
+
+  return {
+    cols,
+    rows,
+    stepX,
+    stepY,
+    originX: (width - cols * stepX) / 2,
+    originY: (height - rows * stepY) / 2,
+  };
+}
+
+/**
+ * Output canvas size for a source frame: the source width, with the height
+ * taken from the cell grid so every cell keeps the glyph aspect ratio in all
+ * sizing modes. Whole cells rarely fill the source exactly, so the output is
+ * usually a little shorter or taller than it.
+ */
+export function getGridOutputSize(
+  width: number,
+  height: number,
+  settings: ASCIISettings
+): { width: number; height: number } {
+  const { cols, rows } = computeGridLayout(width, height, settings);
+  if (cols === 0 || rows === 0) return { width, height };
+  const aspect = getFontMetrics(settings.fontFamily).aspectRatio;
+  return {
+    width,
+    height: Math.max(1, Math.round((width * rows) / (cols * aspect))),
+  };
+}
+
+// Sub-cell grid each cell is sampled into when matching glyph shapes
+const SHAPE_GRID_COLS = 4;
+const SHAPE_GRID_ROWS = 6;
+
+// Each Braille character is a 2x4 dot matrix starting at U+2800
+const BRAILLE_BASE = 0x2800;
+const BRAILLE_DOT_COLS = 2;
+const BRAILLE_DOT_ROWS = 4;
+// Bit for the dot at [row][col], following the Unicode dot numbering
+const BRAILLE_DOT_BITS = [
+  [0x01, 0x08],
+  [0x02, 0x10],
+  [0x04, 0x20],
+  [0x40, 0x80],
+];
+
+// Dead band around a Braille dot's or mosaic region's cutoff, as a fraction of
+// the full tone range, per unit of temporalThreshold
+const BIT_HYSTERESIS = 0.25;
 
 export function rgbToGrayscale(r: number, g: number, b: number): number {
   return 0.299 * r + 0.587 * g + 0.114 * b;
@@ -67,13 +296,14 @@ export function getCharacterForBrightness(
   characterSet: string,
   invert: boolean
 ): string {
-  if (characterSet.length === 0) return ' ';
-  if (characterSet.length === 1) return characterSet[0];
+  const glyphs = splitGraphemes(characterSet);
+  if (glyphs.length === 0) return ' ';
+  if (glyphs.length === 1) return glyphs[0];
   
   const normalizedBrightness = Math.min(255, Math.max(0, brightness)) / 255;
   const adjustedBrightness = invert ? 1 - normalizedBrightness : normalizedBrightness;
-  const index = Math.round(adjustedBrightness * (characterSet.length - 1));
-  return characterSet[Math.min(Math.max(0, index), characterSet.length - 1)];
+  const index = Math.round(adjustedBrightness * (glyphs.length - 1));
+  return glyphs[Math.min(Math.max(0, index), glyphs.length - 1)];
 }
 
 export function interpolateGradient(
@@ -82,21 +312,27 @@ export function interpolateGradient(
 ): string {
   if (colors.length === 0) return '#ffffff';
   if (colors.length === 1) return colors[0];
+  return packedToHex(interpolateGradientPacked(colors, position));
+}
+
+function interpolateGradientPacked(colors: string[], position: number): number {
+  if (colors.length === 0) return 0xffffffff;
   
   const scaledPosition = position * (colors.length - 1);
   const index = Math.floor(scaledPosition);
   const t = scaledPosition - index;
   
-  if (index >= colors.length - 1) return colors[colors.length - 1];
+  if (index >= colors.length - 1) return hexToPacked(colors[colors.length - 1]);
   
-  const color1 = hexToRgb(colors[index]);
-  const color2 = hexToRgb(colors[index + 1]);
+  const color1 = hexToPacked(colors[index]);
+  const color2 = hexToPacked(colors[index + 1]);
+  const channel = (shift: number) => {
+    const from = (color1 >>> shift) & 0xff;
+    const to = (color2 >>> shift) & 0xff;
+    return Math.round(from + (to - from) * t);
+  };
   
-  const r = Math.round(color1.r + (color2.r - color1.r) * t);
-  const g = Math.round(color1.g + (color2.g - color1.g) * t);
-  const b = Math.round(color1.b + (color2.b - color1.b) * t);
-  
-  return rgbToHex(r, g, b);
+  return packRGBA(channel(24), channel(16), channel(8));
 }
 
 export function hexToRgb(hex: string): { r: number; g: number; b: number } {
@@ -114,172 +350,836 @@ export function rgbToHex(r: number, g: number, b: number): string {
   return '#' + [r, g, b].map((x) => x.toString(16).padStart(2, '0')).join('');
 }
 
-export function applyBlendMode(
-  sourceR: number,
-  sourceG: number,
-  sourceB: number,
-  mode: ASCIISettings['blendMode']
-): { r: number; g: number; b: number } {
-  switch (mode) {
-    case 'multiply':
-      return {
-        r: (sourceR * sourceR) / 255,
-        g: (sourceG * sourceG) / 255,
-        b: (sourceB * sourceB) / 255,
-      };
-    case 'screen':
-      return {
-        r: 255 - ((255 - sourceR) * (255 - sourceR)) / 255,
-        g: 255 - ((255 - sourceG) * (255 - sourceG)) / 255,
-        b: 255 - ((255 - sourceB) * (255 - sourceB)) / 255,
-      };
-    case 'overlay':
-      return {
-        r: sourceR < 128 ? (2 * sourceR * sourceR) / 255 : 255 - (2 * (255 - sourceR) * (255 - sourceR)) / 255,
-        g: sourceG < 128 ? (2 * sourceG * sourceG) / 255 : 255 - (2 * (255 - sourceG) * (255 - sourceG)) / 255,
-        b: sourceB < 128 ? (2 * sourceB * sourceB) / 255 : 255 - (2 * (255 - sourceB) * (255 - sourceB)) / 255,
-      };
-    case 'difference':
-      return {
-        r: Math.abs(sourceR - 128),
-        g: Math.abs(sourceG - 128),
-        b: Math.abs(sourceB - 128),
-      };
+function sampleCell(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  settings: ASCIISettings
+): PixelSample | null {
+  return sampleRegion(
+    pixels, width, height, x, y, w, h,
+    settings.samplingMode, settings.supersampleFactor
+  );
+}
+
+function toneMappedGray(
+  r: number,
+  g: number,
+  b: number,
+  settings: ASCIISettings
+): number {
+  let gray = rgbToGrayscale(r, g, b);
+  gray = applyBrightness(gray, settings.brightness);
+  return applyContrast(gray, settings.contrast);
+}
+
+/**
+ * Looks up the custom colour for a glyph, falling back to the colour of the
+ * ramp character for this brightness band (for glyphs outside the set, such as
+ * edge, Braille or block characters) and then to the monochrome colour.
+ */
+export function getCustomColor(
+  char: string,
+  gray: number,
+  settings: ASCIISettings
+): string {
+  const { customColors, characterSet, invert } = settings;
+  return (
+    customColors[char] ??
+    customColors[getCharacterForBrightness(gray, characterSet, invert)] ??
+    settings.monochromeColor
+  );
+}
+
+export function getActivePalette(settings: ASCIISettings): string[] {
+  if (settings.palette === 'custom') return settings.customPalette;
+  return PALETTE_PRESETS[settings.palette]?.colors ?? [];
+}
+
+function quantizeToPalette(r: number, g: number, b: number, palette: string[]): number {
+  if (palette.length === 0) return packRGBA(Math.round(r), Math.round(g), Math.round(b));
+  return hexToPacked(palette[getPaletteMatcher(palette).nearest(r, g, b)]);
+}
+
+// Opaque packed glyph colour for a cell
+function resolveCellColor(
+  r: number,
+  g: number,
+  b: number,
+  gray: number,
+  settings: ASCIISettings,
+  char: string
+): number {
+  switch (settings.colorMode) {
+    case 'monochrome':
+      return hexToPacked(settings.monochromeColor);
+    case 'gradient':
+      return interpolateGradientPacked(settings.gradientColors, gray / 255);
+    case 'custom':
+      return hexToPacked(getCustomColor(char, gray, settings));
+    case 'palette':
+      return quantizeToPalette(r, g, b, getActivePalette(settings));
     default:
-      return { r: sourceR, g: sourceG, b: sourceB };
+      return packRGBA(Math.round(r), Math.round(g), Math.round(b));
   }
 }
 
-export interface ASCIIChar {
-  char: string;
-  color: string;
-  x: number;
-  y: number;
+// Combined opacity of a cell from its source alpha and any keying
+function getCellAlpha(
+  sample: PixelSample | null,
+  settings: ASCIISettings
+): number {
+  if (!sample || sample.a < settings.alphaThreshold) return 0;
+  return sample.a * getKeyAlpha(sample.r, sample.g, sample.b, settings);
 }
 
-export function convertFrameToASCII(
-  ctx: CanvasRenderingContext2D,
+function getKeyAlpha(r: number, g: number, b: number, settings: ASCIISettings): number {
+  switch (settings.keyMode) {
+    case 'chroma':
+      return chromaKeyAlpha(
+        r, g, b, hexToRgb(settings.chromaKeyColor),
+        settings.keyTolerance, settings.keySoftness
+      );
+    case 'luma':
+      return lumaKeyAlpha(
+        rgbToGrayscale(r, g, b), settings.lumaKeyThreshold,
+        settings.keySoftness, settings.lumaKeyAbove
+      );
+    default:
+      return 1;
+  }
+}
+
+interface ShapeTemplates {
+  glyphs: readonly string[];
+  coverage: Float32Array[];
+}
+
+function getShapeTemplates(characterSet: string, metrics: GlyphMetrics): ShapeTemplates {
+  const glyphs = splitGraphemes(characterSet);
+  const raw = rasterizeGlyphs(glyphs, SHAPE_GRID_COLS, SHAPE_GRID_ROWS, metrics);
+
+  // Scale coverage so the densest glyph corresponds to full brightness
+  let maxMean = 0;
+  for (const grid of raw) {
+    let sum = 0;
+    for (let i = 0; i < grid.length; i++) sum += grid[i];
+    maxMean = Math.max(maxMean, sum / grid.length);
+  }
+  const scale = maxMean > 0 ? 1 / maxMean : 1;
+
+  const coverage = raw.map((grid) => grid.map((v) => Math.min(1, v * scale)));
+  return { glyphs, coverage };
+}
+
+function matchGlyphShape(pattern: Float32Array, templates: ShapeTemplates): string {
+  const { glyphs, coverage } = templates;
+  if (glyphs.length === 0) return ' ';
+
+  let best = 0;
+  let bestError = Infinity;
+  for (let g = 0; g < glyphs.length; g++) {
+    const template = coverage[g];
+    let error = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const d = pattern[i] - template[i];
+      error += d * d;
+    }
+    if (error < bestError) {
+      bestError = error;
+      best = g;
+    }
+  }
+  return glyphs[best];
+}
+
+function sampleShapePattern(
+  pixels: Uint8ClampedArray,
   width: number,
   height: number,
-  settings: ASCIISettings
-): ASCIIChar[][] {
-  const { pixelSize, characterSet, colorMode, contrast, brightness, invert, blendMode } = settings;
+  cellX: number,
+  cellY: number,
+  stepX: number,
+  stepY: number,
+  settings: ASCIISettings,
+  pattern: Float32Array
+): Float32Array {
+  const subWidth = stepX / SHAPE_GRID_COLS;
+  const subHeight = stepY / SHAPE_GRID_ROWS;
+
+  for (let sy = 0; sy < SHAPE_GRID_ROWS; sy++) {
+    for (let sx = 0; sx < SHAPE_GRID_COLS; sx++) {
+      const sample = sampleCell(
+        pixels, width, height,
+        cellX + sx * subWidth, cellY + sy * subHeight, subWidth, subHeight, settings
+      );
+
+      let value = sample ? toneMappedGray(sample.r, sample.g, sample.b, settings) / 255 : 0;
+      if (settings.invert) value = 1 - value;
+      // Transparent areas carry no ink
+      value *= sample?.a ?? 0;
+      pattern[sy * SHAPE_GRID_COLS + sx] = value;
+    }
+  }
+  return pattern;
+}
+
+function convertToBraille(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  grid: ASCIIGridLayout,
+  settings: ASCIISettings,
+  history: TemporalState | null
+): ASCIIFrame {
+  const { cols, rows, stepX, stepY, originX, originY } = grid;
+  const dotCols = cols * BRAILLE_DOT_COLS;
+  const dotRows = rows * BRAILLE_DOT_ROWS;
+  const dotWidth = stepX / BRAILLE_DOT_COLS;
+  const dotHeight = stepY / BRAILLE_DOT_ROWS;
+  const dotsPerCell = BRAILLE_DOT_COLS * BRAILLE_DOT_ROWS;
+
+  // History keeps each cell's smoothed dots and the dot pattern it shows
+  const smoothing =
+    history && prepareTemporalState(history, cols, rows, 1 << dotsPerCell, dotsPerCell)
+      ? settings.temporalSmoothingAmount
+      : 0;
+  const dotSlot = (dx: number, dy: number) => {
+    const cell = Math.floor(dy / BRAILLE_DOT_ROWS) * cols + Math.floor(dx / BRAILLE_DOT_COLS);
+    return cell * dotsPerCell + (dy % BRAILLE_DOT_ROWS) * BRAILLE_DOT_COLS + (dx % BRAILLE_DOT_COLS);
+  };
+
+  // Dots are thresholded on their own grid so dithering works at full dot resolution
+  const dotValues = new Float32Array(dotCols * dotRows);
+  for (let dy = 0; dy < dotRows; dy++) {
+    for (let dx = 0; dx < dotCols; dx++) {
+      const sample = sampleCell(
+        pixels, width, height,
+        originX + dx * dotWidth, originY + dy * dotHeight, dotWidth, dotHeight, settings
+      );
+      let value = sample ? toneMappedGray(sample.r, sample.g, sample.b, settings) / 255 : 0;
+      if (settings.invert) value = 1 - value;
+      // Transparent areas carry no ink
+      value *= sample?.a ?? 0;
+      if (history) {
+        const slot = dotSlot(dx, dy);
+        value = history.detail[slot] = smoothValue(history.detail[slot], value, smoothing);
+      }
+      dotValues[dy * dotCols + dx] = value;
+    }
+  }
+
+  // Shift values so the chosen threshold lands on the 0.5 rounding point
+  const shift = 0.5 - settings.brailleThreshold;
+  for (let i = 0; i < dotValues.length; i++) dotValues[i] += shift;
+
+  let dots: ArrayLike<number>;
+  if (history && settings.brailleDitherMode === 'none') {
+    // Hold each dot until its value clearly crosses the threshold
+    const band = settings.temporalThreshold * BIT_HYSTERESIS;
+    const held = new Uint8Array(dotValues.length);
+    for (let dy = 0; dy < dotRows; dy++) {
+      for (let dx = 0; dx < dotCols; dx++) {
+        const shown = history.index[Math.floor(dotSlot(dx, dy) / dotsPerCell)];
+        const bit = BRAILLE_DOT_BITS[dy % BRAILLE_DOT_ROWS][dx % BRAILLE_DOT_COLS];
+        const previous = shown < 0 ? -1 : shown & bit ? 1 : 0;
+        held[dy * dotCols + dx] = stableBit(previous, dotValues[dy * dotCols + dx], 0.5, band);
+      }
+    }
+    dots = held;
+  } else {
+    dots = ditherGrid(
+      dotValues, dotCols, dotRows, 1, settings.brailleDitherMode, 1, 1,
+      (value, out) => {
+        const on = value[0] >= 0.5 ? 1 : 0;
+        out[0] = on;
+        return on;
+      }
+    );
+  }
+
+  const writer = createFrameWriter(grid);
+  const { frame } = writer;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      let bits = 0;
+      for (let r = 0; r < BRAILLE_DOT_ROWS; r++) {
+        for (let c = 0; c < BRAILLE_DOT_COLS; c++) {
+          const i = (y * BRAILLE_DOT_ROWS + r) * dotCols + x * BRAILLE_DOT_COLS + c;
+          if (dots[i]) bits |= BRAILLE_DOT_BITS[r][c];
+        }
+      }
+
+      const i = y * cols + x;
+      const cellX = originX + x * stepX;
+      const cellY = originY + y * stepY;
+      const sample = sampleCell(pixels, width, height, cellX, cellY, stepX, stepY, settings);
+      let r = sample?.r ?? 0;
+      let g = sample?.g ?? 0;
+      let b = sample?.b ?? 0;
+      if (history) {
+        const { color } = history;
+        r = color[i * 3] = smoothValue(color[i * 3], r, smoothing);
+        g = color[i * 3 + 1] = smoothValue(color[i * 3 + 1], g, smoothing);
+        b = color[i * 3 + 2] = smoothValue(color[i * 3 + 2], b, smoothing);
+        history.index[i] = bits;
+      }
+      const gray = toneMappedGray(r, g, b, settings);
+      const alpha = getCellAlpha(sample, settings);
+      const char = alpha > 0 ? String.fromCharCode(BRAILLE_BASE + bits) : ' ';
+
+      frame.glyphs[i] = writer.glyphIndex(char);
+      frame.colors[i] = withAlpha(resolveCellColor(r, g, b, gray, settings, char), alpha);
+    }
+  }
+
+  return frame;
+}
+
+/**
+ * Splits each cell into sub-regions, separates them into a bright (foreground)
+ * and dark (background) group and emits the block glyph covering the bright ones.
+ */
+function convertToMosaic(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  grid: ASCIIGridLayout,
+  mosaic: MosaicLayout,
+  settings: ASCIISettings,
+  history: TemporalState | null
+): ASCIIFrame {
+  const { cols, rows, stepX, stepY, originX, originY } = grid;
+  const subCount = mosaic.cols * mosaic.rows;
+  // History keeps each region's smoothed colour and the mask each cell shows
+  const smoothing =
+    history && prepareTemporalState(history, cols, rows, 1 << subCount, subCount * 3)
+      ? settings.temporalSmoothingAmount
+      : 0;
+  const band = settings.temporalThreshold * BIT_HYSTERESIS * 255;
+  const subWidth = stepX / mosaic.cols;
+  const subHeight = stepY / mosaic.rows;
+  const subR = new Float32Array(subCount);
+  const subG = new Float32Array(subCount);
+  const subB = new Float32Array(subCount);
+  const subGray = new Float32Array(subCount);
+  const subA = new Float32Array(subCount);
+
+  const writer = createFrameWriter(grid);
+  const { frame } = writer;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      let meanGray = 0;
+      for (let sy = 0; sy < mosaic.rows; sy++) {
+        for (let sx = 0; sx < mosaic.cols; sx++) {
+          const i = sy * mosaic.cols + sx;
+          const sample = sampleCell(
+            pixels, width, height,
+            originX + x * stepX + sx * subWidth, originY + y * stepY + sy * subHeight,
+            subWidth, subHeight, settings
+          );
+          subR[i] = sample?.r ?? 0;
+          subG[i] = sample?.g ?? 0;
+          subB[i] = sample?.b ?? 0;
+          subA[i] = sample?.a ?? 0;
+          if (history) {
+            const slot = ((y * cols + x) * subCount + i) * 3;
+            const { detail } = history;
+            subR[i] = detail[slot] = smoothValue(detail[slot], subR[i], smoothing);
+            subG[i] = detail[slot + 1] = smoothValue(detail[slot + 1], subG[i], smoothing);
+            subB[i] = detail[slot + 2] = smoothValue(detail[slot + 2], subB[i], smoothing);
+          }
+          subGray[i] = toneMappedGray(subR[i], subG[i], subB[i], settings);
+          meanGray += subGray[i];
+        }
+      }
+      meanGray /= subCount;
+
+      let mask = 0;
+      const shown = history ? history.index[y * cols + x] : -1;
+      const fg = { r: 0, g: 0, b: 0, gray: 0, count: 0 };
+      const bg = { r: 0, g: 0, b: 0, gray: 0, count: 0 };
+      for (let i = 0; i < subCount; i++) {
+        // With history, a region only changes side once it is clearly past the mean
+        const bright = history
+          ? stableBit(shown < 0 ? -1 : (shown >> i) & 1, subGray[i], meanGray, band) === 1
+          : subGray[i] > meanGray;
+        const group = bright ? fg : bg;
+        if (group === fg) mask |= 1 << i;
+        group.r += subR[i];
+        group.g += subG[i];
+        group.b += subB[i];
+        group.gray += subGray[i];
+        group.count++;
+      }
+
+      // A uniform cell, or one hysteresis holds on one side, leaves a group
+      // empty; paint the whole cell in the other group's colour
+      const fgSource = fg.count > 0 ? fg : bg;
+      const bgSource = bg.count > 0 ? bg : fg;
+      const alpha = getCellAlpha(
+        {
+          r: (fg.r + bg.r) / subCount,
+          g: (fg.g + bg.g) / subCount,
+          b: (fg.b + bg.b) / subCount,
+          a: subA.reduce((sum, a) => sum + a, 0) / subCount,
+        },
+        settings
+      );
+      if (history) history.index[y * cols + x] = mask;
+      const char = alpha > 0 ? mosaic.glyphFor(mask) : ' ';
+      const colorOf = (group: typeof fg) =>
+        resolveCellColor(
+          group.r / group.count, group.g / group.count, group.b / group.count,
+          group.gray / group.count, settings, char
+        );
+
+      const i = y * cols + x;
+      frame.glyphs[i] = writer.glyphIndex(char);
+      frame.colors[i] = withAlpha(colorOf(fgSource), alpha);
+      frame.backgrounds[i] = alpha > 0 ? colorOf(bgSource) : 0;
+    }
+  }
+
+  return frame;
+}
+
+/**
+ * Whether temporalThreshold holds glyphs in the current mode. Dithering and
+ * shape matching choose glyphs their own way, so smoothing only steadies the
+ * values they start from.
+ */
+export function usesTemporalThreshold(settings: ASCIISettings): boolean {
+  if (settings.renderMode === 'braille') return settings.brailleDitherMode === 'none';
+  if (settings.renderMode !== 'ascii') return true;
+  return settings.ditherMode === 'none' && settings.matchingMode !== 'shape';
+}
+
+/**
+ * Converts the frame currently drawn on `ctx` into a grid of glyphs using
+ * `settings`. Pass the same `temporal` state for consecutive frames of a
+ * stream to enable temporal smoothing.
+ */
+export function convertToASCIIFrame(
+  ctx: ScratchContext,
+  width: number,
+  height: number,
+  settings: ASCIISettings,
+  temporal?: TemporalState
+): ASCIIFrame {
+  const { characterSet, contrast, brightness, invert } = settings;
   const imageData = ctx.getImageData(0, 0, width, height);
   const pixels = imageData.data;
   
-  // To maintain aspect ratio, we sample blocks that match the character's aspect ratio
-  const stepX = pixelSize;
-  const stepY = pixelSize / CHAR_ASPECT_RATIO;
-  
-  const cols = Math.floor(width / stepX);
-  const rows = Math.floor(height / stepY);
-  const result: ASCIIChar[][] = [];
+  const grid = computeGridLayout(width, height, settings);
+  const { cols, rows, stepX, stepY, originX, originY } = grid;
+
+  const history = settings.temporalSmoothing && temporal ? temporal : null;
+
+  if (settings.renderMode === 'braille') {
+    return convertToBraille(pixels, width, height, grid, settings, history);
+  }
+  if (settings.renderMode !== 'ascii') {
+    return convertToMosaic(
+      pixels, width, height, grid, MOSAIC_LAYOUTS[settings.renderMode], settings, history
+    );
+  }
+
+  const writer = createFrameWriter(grid);
+  const { frame } = writer;
+  const glyphs = splitGraphemes(characterSet);
+  const rampIndices = glyphs.map((glyph) => writer.glyphIndex(glyph));
+
+  const templates =
+    settings.matchingMode === 'shape' && glyphs.length > 1
+      ? getShapeTemplates(characterSet, getFontMetrics(settings.fontFamily))
+      : null;
+  const pattern = new Float32Array(SHAPE_GRID_COLS * SHAPE_GRID_ROWS);
+  const luminance = settings.edgeDetection ? computeLuminance(pixels, width, height) : null;
+
+  // Ramp positions are collected first so dithering can spread error across the grid
+  const ditherValues =
+    settings.ditherMode !== 'none' && !templates && glyphs.length > 1
+      ? new Float32Array(cols * rows)
+      : null;
+  const lockedCells = new Uint8Array(cols * rows);
+
+  const palette = settings.colorMode === 'palette' ? getActivePalette(settings) : [];
+  const colorDitherValues =
+    settings.ditherMode !== 'none' && palette.length > 1
+      ? new Float32Array(cols * rows * 3)
+      : null;
+
+  const smoothing =
+    history && prepareTemporalState(history, cols, rows, glyphs.length)
+      ? settings.temporalSmoothingAmount
+      : 0;
   
   for (let y = 0; y < rows; y++) {
-    const row: ASCIIChar[] = [];
     for (let x = 0; x < cols; x++) {
-      const pixelX = Math.floor(x * stepX);
-      const pixelY = Math.floor(y * stepY);
+      const i = y * cols + x;
+      const cellX = originX + x * stepX;
+      const cellY = originY + y * stepY;
+      const pixelX = Math.floor(cellX);
+      const pixelY = Math.floor(cellY);
       
-      let totalR = 0, totalG = 0, totalB = 0, count = 0;
-      
-      const blockWidth = Math.ceil(stepX);
-      const blockHeight = Math.ceil(stepY);
-      
-      for (let py = 0; py < blockHeight && pixelY + py < height; py++) {
-        for (let px = 0; px < blockWidth && pixelX + px < width; px++) {
-          const i = ((pixelY + py) * width + (pixelX + px)) * 4;
-          totalR += pixels[i];
-          totalG += pixels[i + 1];
-          totalB += pixels[i + 2];
-          count++;
-        }
+      const sample = sampleCell(pixels, width, height, cellX, cellY, stepX, stepY, settings);
+      if (!sample) {
+        // Letterbox padding outside the source stays blank and transparent
+        lockedCells[i] = 1;
+        continue;
       }
-      
-      if (count === 0) continue;
 
-      let avgR = totalR / count;
-      let avgG = totalG / count;
-      let avgB = totalB / count;
-      
-      const blended = applyBlendMode(avgR, avgG, avgB, blendMode);
-      avgR = blended.r;
-      avgG = blended.g;
-      avgB = blended.b;
+      let avgR = sample.r;
+      let avgG = sample.g;
+      let avgB = sample.b;
+      if (history) {
+        const { color } = history;
+        avgR = color[i * 3] = smoothValue(color[i * 3], avgR, smoothing);
+        avgG = color[i * 3 + 1] = smoothValue(color[i * 3 + 1], avgG, smoothing);
+        avgB = color[i * 3 + 2] = smoothValue(color[i * 3 + 2], avgB, smoothing);
+      }
       
       let gray = rgbToGrayscale(avgR, avgG, avgB);
       gray = applyBrightness(gray, brightness);
       gray = applyContrast(gray, contrast);
       
-      const char = getCharacterForBrightness(gray, characterSet, invert);
-      
-      let color: string;
-      switch (colorMode) {
-        case 'monochrome':
-          color = settings.monochromeColor;
-          break;
-        case 'gradient':
-          color = interpolateGradient(settings.gradientColors, gray / 255);
-          break;
-        case 'custom':
-          color = settings.monochromeColor;
-          break;
-        default:
-          color = rgbToHex(Math.round(avgR), Math.round(avgG), Math.round(avgB));
+      let char: string;
+      if (templates) {
+        char = matchGlyphShape(
+          sampleShapePattern(pixels, width, height, cellX, cellY, stepX, stepY, settings, pattern),
+          templates
+        );
+      } else if (history && !ditherValues && glyphs.length > 1) {
+        // Hold the previous glyph until the cell clearly moves to another ramp entry
+        const normalized = Math.min(255, Math.max(0, gray)) / 255;
+        const position = (invert ? 1 - normalized : normalized) * (glyphs.length - 1);
+        history.index[i] = stableIndex(history.index[i], position, settings.temporalThreshold);
+        char = glyphs[history.index[i]];
+      } else {
+        char = getCharacterForBrightness(gray, characterSet, invert);
+      }
+
+      if (luminance) {
+        const edgeChar = detectEdgeCharacter(
+          luminance, width, height, pixelX, pixelY,
+          Math.ceil(stepX), Math.ceil(stepY), settings.edgeThreshold
+        );
+        if (edgeChar) {
+          char = edgeChar;
+          lockedCells[i] = 1;
+        } else if (settings.edgesOnly) {
+          char = ' ';
+          lockedCells[i] = 1;
+        }
+      }
+
+      const alpha = getCellAlpha(sample, settings);
+      if (alpha <= 0) {
+        char = ' ';
+        lockedCells[i] = 1;
+      }
+
+      if (ditherValues) {
+        const normalized = Math.min(255, Math.max(0, gray)) / 255;
+        ditherValues[i] = invert ? 1 - normalized : normalized;
       }
       
-      row.push({ char, color, x: pixelX, y: pixelY });
+      if (colorDitherValues) {
+        colorDitherValues[i * 3] = avgR;
+        colorDitherValues[i * 3 + 1] = avgG;
+        colorDitherValues[i * 3 + 2] = avgB;
+      }
+
+      frame.glyphs[i] = writer.glyphIndex(char);
+      frame.colors[i] = withAlpha(resolveCellColor(avgR, avgG, avgB, gray, settings, char), alpha);
+    }
+  }
+
+  if (ditherValues) {
+    const levels = ditherLevels(
+      ditherValues, cols, rows, glyphs.length,
+      settings.ditherMode, settings.ditherStrength
+    );
+    for (let i = 0; i < cols * rows; i++) {
+      if (lockedCells[i]) continue;
+
+      frame.glyphs[i] = rampIndices[levels[i]];
+      if (settings.colorMode === 'custom') {
+        const color = settings.customColors[glyphs[levels[i]]] ?? settings.monochromeColor;
+        frame.colors[i] = withAlpha(hexToPacked(color), packedAlpha(frame.colors[i]));
+      }
     }
-    result.push(row);
   }
+
+  if (colorDitherValues) {
+    const matcher = getPaletteMatcher(palette);
+    const indices = ditherGrid(
+      colorDitherValues, cols, rows, 3,
+      settings.ditherMode, settings.ditherStrength,
+      // Ordered dither amplitude: roughly one step of an evenly spread palette
+      255 / Math.cbrt(palette.length),
+      (value, out) => {
+        const index = matcher.nearest(value[0], value[1], value[2]);
+        out.set(matcher.rgb.subarray(index * 3, index * 3 + 3));
+        return index;
+      }
+    );
+    const paletteColors = palette.map(hexToPacked);
+    for (let i = 0; i < cols * rows; i++) {
+      frame.colors[i] = withAlpha(paletteColors[indices[i]], packedAlpha(frame.colors[i]));
+    }
+  }
+
+  spanWideGlyphs(frame);
   
-  return result;
+  return frame;
 }
 
-export function renderASCIIToCanvas(
-  outputCtx: CanvasRenderingContext2D,
-  asciiChars: ASCIIChar[][],
+/** Legacy form of convertToASCIIFrame returning one object per cell. */
+export function convertFrameToASCII(
+  ctx: ScratchContext,
+  width: number,
+  height: number,
+  settings: ASCIISettings,
+  temporal?: TemporalState
+): ASCIIChar[][] {
+  return frameToASCIIChars(convertToASCIIFrame(ctx, width, height, settings, temporal));
+}
+
+/**
+ * Wide glyphs (CJK, emoji) take their own cell and the next one, which becomes
+ * a continuation cell styled like its lead so backgrounds stay solid.
+ */
+function spanWideGlyphs(frame: ASCIIFrame): void {
+  const wide = frame.glyphTable.map(isWideGrapheme);
+  if (!wide.includes(true)) return;
+
+  const { cols, rows, glyphs, colors, backgrounds } = frame;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols - 1; x++) {
+      const i = y * cols + x;
+      if (!wide[glyphs[i]]) continue;
+
+      glyphs[i + 1] = CONTINUATION_GLYPH;
+      colors[i + 1] = colors[i];
+      backgrounds[i + 1] = backgrounds[i];
+      x++;
+    }
+  }
+}
+
+let glyphLayer: ScratchContext | null = null;
+
+function getGlyphLayer(width: number, height: number): ScratchContext | null {
+  if (!glyphLayer || glyphLayer.canvas.width !== width || glyphLayer.canvas.height !== height) {
+    glyphLayer = createScratchContext(width, height, false);
+  }
+  glyphLayer?.clearRect(0, 0, width, height);
+  return glyphLayer;
+}
+
+// Any drawable frame whose pixel size is known, e.g. a canvas or image bitmap
+export type SourceFrame = CanvasImageSource & { width: number; height: number };
+
+function drawBackgroundLayer(
+  outputCtx: ScratchContext,
   settings: ASCIISettings,
   outputWidth: number,
-  outputHeight: number
+  outputHeight: number,
+  source?: SourceFrame
 ): void {
-  const { backgroundColor, transparentBackground } = settings;
-  
+  const { backgroundColor, transparentBackground, blendBackground } = settings;
+
   if (transparentBackground) {
     outputCtx.clearRect(0, 0, outputWidth, outputHeight);
   } else {
     outputCtx.fillStyle = backgroundColor;
     outputCtx.fillRect(0, 0, outputWidth, outputHeight);
   }
-  
-  if (asciiChars.length === 0 || asciiChars[0].length === 0) return;
 
-  const cols = asciiChars[0].length;
-  const rows = asciiChars.length;
+  if (blendBackground === 'solid' || !source) return;
+
+  const filters: string[] = [];
+  if (blendBackground === 'blurred' && settings.underlayBlur > 0) {
+    filters.push(`blur(${settings.underlayBlur}px)`);
+  }
+  if (settings.underlayDarken > 0) {
+    filters.push(`brightness(${1 - settings.underlayDarken})`);
+  }
+  if (settings.underlayDesaturate > 0) {
+    filters.push(`grayscale(${settings.underlayDesaturate})`);
+  }
+
+  // Map the source through the grid so the underlay lines up with letterboxed or cropped cells
+  const grid = computeGridLayout(source.width, source.height, settings);
+  const scaleX = outputWidth / (grid.cols * grid.stepX);
+  const scaleY = outputHeight / (grid.rows * grid.stepY);
+
+  outputCtx.save();
+  outputCtx.globalAlpha = settings.underlayOpacity;
+  if (filters.length > 0) outputCtx.filter = filters.join(' ');
+  outputCtx.drawImage(
+    source,
+    -grid.originX * scaleX,
+    -grid.originY * scaleY,
+    source.width * scaleX,
+    source.height * scaleY
+  );
+  outputCtx.restore();
+}
+
+// Punches keyed cells out of the underlay so transparent exports stay cut out
+function clearKeyedCells(
+  outputCtx: ScratchContext,
+  frame: ASCIIFrame,
+  outputWidth: number,
+  outputHeight: number
+): void {
+  const { cols, rows, colors } = frame;
+  const cellWidth = outputWidth / cols;
+  const cellHeight = outputHeight / rows;
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      if (packedAlpha(colors[y * cols + x]) > 0) continue;
+      const left = Math.floor(x * cellWidth);
+      const top = Math.floor(y * cellHeight);
+      outputCtx.clearRect(
+        left,
+        top,
+        Math.ceil((x + 1) * cellWidth) - left,
+        Math.ceil((y + 1) * cellHeight) - top
+      );
+    }
+  }
+}
+
+function drawGlyphLayer(
+  ctx: ScratchContext,
+  frame: ASCIIFrame,
+  metrics: GlyphMetrics,
+  outputWidth: number,
+  outputHeight: number
+): void {
+  const { cols, rows, glyphTable, glyphs, colors, backgrounds } = frame;
 
   // Calculate the actual size of each cell in the output
   const cellWidth = outputWidth / cols;
   const cellHeight = outputHeight / rows;
 
-  // Use the cellHeight as font size, but we might need to adjust for the aspect ratio
-  // Since our cells were sampled at 0.6 ratio, cellWidth / cellHeight should be approx 0.6
-  const fontSize = cellHeight;
-  outputCtx.font = `${fontSize}px "JetBrains Mono", monospace`;
-  outputCtx.textBaseline = 'top';
-  outputCtx.textAlign = 'left';
+  // Cells were sampled at the font's measured aspect ratio, so sizing the
+  // font's line box to the cell height makes each advance fill one cell
+  const fontSize = cellHeight * metrics.fontScale;
+  const baseline = cellHeight * metrics.baseline;
+  ctx.font = `${fontSize}px ${metrics.fontFamily}`;
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
 
+  // Opaque glyphs can be blitted from an atlas of glyph masks when the frame repeats them
+  const keys = new Set<string>();
+  let glyphCount = 0;
   for (let y = 0; y < rows; y++) {
     for (let x = 0; x < cols; x++) {
-      const { char, color } = asciiChars[y][x];
-      outputCtx.fillStyle = color;
-      
-      // Center the character in its cell if needed, but for mono font
-      // just drawing at (x * cellWidth, y * cellHeight) should work if font matches
-      outputCtx.fillText(
-        char,
-        x * cellWidth,
-        y * cellHeight
-      );
+      const i = y * cols + x;
+      if (glyphs[i] <= CONTINUATION_GLYPH || (colors[i] & 0xff) !== 0xff) continue;
+      const wide = x + 1 < cols && glyphs[i + 1] === CONTINUATION_GLYPH;
+      keys.add(glyphKey(glyphTable[glyphs[i]], wide));
+      glyphCount++;
     }
   }
+  const blitter = getGlyphBlitter(
+    { font: ctx.font, cellWidth, cellHeight, baseline }, keys, glyphCount
+  );
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = y * cols + x;
+      const alpha = packedAlpha(colors[i]);
+      if (alpha <= 0) continue;
+      // Queued glyphs go down before anything drawn over or beside them
+      if (blitter && (alpha !== 1 || backgrounds[i])) blitter.flush(ctx);
+      ctx.globalAlpha = alpha;
+
+      if (backgrounds[i]) {
+        // Snap to whole pixels so neighbouring backgrounds don't leave seams
+        const left = Math.floor(x * cellWidth);
+        const top = Math.floor(y * cellHeight);
+        ctx.fillStyle = packedToHex(backgrounds[i]);
+        ctx.fillRect(
+          left,
+          top,
+          Math.ceil((x + 1) * cellWidth) - left,
+          Math.ceil((y + 1) * cellHeight) - top
+        );
+      }
+
+      // Blank cells and the continuation half of a wide glyph
+      if (glyphs[i] <= CONTINUATION_GLYPH) continue;
+
+      const char = glyphTable[glyphs[i]];
+      const color = packedToHex(colors[i]);
+
+      // Glyph origins are snapped too, so atlas blits and fillText land on the same pixels
+      const wide = x + 1 < cols && glyphs[i + 1] === CONTINUATION_GLYPH;
+      const left = Math.round(x * cellWidth);
+      const top = Math.round(y * cellHeight);
+      if (blitter && alpha === 1) {
+        blitter.draw(ctx, char, color, wide, left, top);
+        continue;
+      }
+
+      ctx.fillStyle = color;
+      drawCellGlyph(ctx, char, left, top, wide ? 2 * cellWidth : cellWidth, baseline);
+    }
+  }
+  blitter?.flush(ctx);
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Draws the background layer (solid colour, plus the styled source frame as an
+ * underlay when `blendBackground` asks for it) and composites the glyph layer on top of it
+ * using `blendMode`.
+ */
+export function renderASCIIToCanvas(
+  outputCtx: ScratchContext,
+  frame: ASCIIFrame,
+  settings: ASCIISettings,
+  outputWidth: number,
+  outputHeight: number,
+  source?: SourceFrame
+): void {
+  drawBackgroundLayer(outputCtx, settings, outputWidth, outputHeight, source);
+  
+  if (frame.cols === 0 || frame.rows === 0) return;
+
+  if (settings.transparentBackground && settings.blendBackground !== 'solid') {
+    clearKeyedCells(outputCtx, frame, outputWidth, outputHeight);
+  }
+
+  const metrics = getFontMetrics(settings.fontFamily);
+
+  if (settings.blendMode === 'normal') {
+    drawGlyphLayer(outputCtx, frame, metrics, outputWidth, outputHeight);
+    return;
+  }
+
+  // Glyphs are drawn to their own layer first so they blend with the
+  // background only, not with each other
+  const layer = getGlyphLayer(outputWidth, outputHeight);
+  if (!layer) {
+    drawGlyphLayer(outputCtx, frame, metrics, outputWidth, outputHeight);
+    return;
+  }
+  drawGlyphLayer(layer, frame, metrics, outputWidth, outputHeight);
+
+  outputCtx.save();
+  outputCtx.globalCompositeOperation = settings.blendMode;
+  outputCtx.drawImage(layer.canvas, 0, 0);
+  outputCtx.restore();
 }
@@ -0,0 +1,167 @@
+export interface ASCIIGridLayout {
+  cols: number;
+  rows: number;
+  // Cell size in source pixels
+  stepX: number;
+  stepY: number;
+  // Top-left of the grid in source pixels; negative when letterboxed
+  originX: number;
+  originY: number;
+}
+
+export interface ASCIIChar {
+  char: string;
+  color: string;
+  bgColor?: string;
+  // Cell opacity from keying; 0 leaves the cell fully transparent
+  alpha?: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * One converted frame. Cells are stored row-major in typed arrays so a frame
+ * allocates a handful of buffers instead of an object per cell, and those
+ * buffers can be transferred between workers.
+ */
+export interface ASCIIFrame extends ASCIIGridLayout {
+  // Distinct glyphs; cells refer to them by index
+  glyphTable: string[];
+  glyphs: Uint16Array;
+  // Glyph colour per cell as 0xRRGGBBAA, where AA is the cell's opacity
+  colors: Uint32Array;
+  // Cell background as 0xRRGGBBAA; 0 means none
+  backgrounds: Uint32Array;
+}
+
+// Fixed glyph table slots
+export const BLANK_GLYPH = 0;
+// Right half of a wide glyph, drawn by the cell to its left
+export const CONTINUATION_GLYPH = 1;
+
+export function packRGBA(r: number, g: number, b: number, a = 255): number {
+  return ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+}
+
+// Replaces the alpha of a packed colour with an opacity in 0-1
+export function withAlpha(packed: number, alpha: number): number {
+  return ((packed & 0xffffff00) | Math.round(Math.min(1, Math.max(0, alpha)) * 255)) >>> 0;
+}
+
+export function packedAlpha(packed: number): number {
+  return (packed & 0xff) / 255;
+}
+
+const cssColorCache = new Map<number, string>();
+
+// '#rrggbb' for a packed colour, ignoring its alpha
+export function packedToHex(packed: number): string {
+  const rgb = packed >>> 8;
+  let hex = cssColorCache.get(rgb);
+  if (hex === undefined) {
+    if (cssColorCache.size > 4096) cssColorCache.clear();
+    hex = '#' + rgb.toString(16).padStart(6, '0');
+    cssColorCache.set(rgb, hex);
+  }
+  return hex;
+}
+
+const hexColorCache = new Map<string, number>();
+
+// Packs a '#rrggbb' colour as opaque; unparseable colours become white
+export function hexToPacked(hex: string): number {
+  let packed = hexColorCache.get(hex);
+  if (packed === undefined) {
+    const match = /^#?([a-f\d]{6})$/i.exec(hex);
+    packed = match ? ((parseInt(match[1], 16) << 8) | 0xff) >>> 0 : 0xffffffff;
+    if (hexColorCache.size > 4096) hexColorCache.clear();
+    hexColorCache.set(hex, packed);
+  }
+  return packed;
+}
+
+export interface ASCIIFrameWriter {
+  frame: ASCIIFrame;
+  // Index of a glyph in the frame's table, adding it on first use
+  glyphIndex(glyph: string): number;
+}
+
+export function createFrameWriter(layout: ASCIIGridLayout): ASCIIFrameWriter {
+  const count = layout.cols * layout.rows;
+  const frame: ASCIIFrame = {
+    ...layout,
+    glyphTable: [' ', ''],
+    glyphs: new Uint16Array(count),
+    colors: new Uint32Array(count),
+    backgrounds: new Uint32Array(count),
+  };
+  const indices = new Map<string, number>([[' ', BLANK_GLYPH], ['', CONTINUATION_GLYPH]]);
+
+  return {
+    frame,
+    glyphIndex(glyph) {
+      let index = indices.get(glyph);
+      if (index === undefined) {
+        index = frame.glyphTable.length;
+        frame.glyphTable.push(glyph);
+        indices.set(glyph, index);
+      }
+      return index;
+    },
+  };
+}
+
+/** Expands a frame into the legacy nested ASCIIChar grid. */
+export function frameToASCIIChars(frame: ASCIIFrame): ASCIIChar[][] {
+  const { cols, rows, stepX, stepY, originX, originY } = frame;
+  const result: ASCIIChar[][] = [];
+  for (let y = 0; y < rows; y++) {
+    const row: ASCIIChar[] = [];
+    for (let x = 0; x < cols; x++) {
+      const i = y * cols + x;
+      const background = frame.backgrounds[i];
+      row.push({
+        char: frame.glyphTable[frame.glyphs[i]],
+        color: packedToHex(frame.colors[i]),
+        bgColor: background ? packedToHex(background) : undefined,
+        alpha: packedAlpha(frame.colors[i]),
+        x: Math.floor(originX + x * stepX),
+        y: Math.floor(originY + y * stepY),
+      });
+    }
+    result.push(row);
+  }
+  return result;
+}
+
+/**
+ * Packs a legacy ASCIIChar grid into a frame. The grid's source geometry is
+ * recovered from the cell positions.
+ */
+export function asciiCharsToFrame(asciiChars: ASCIIChar[][]): ASCIIFrame {
+  const rows = asciiChars.length;
+  const cols = rows > 0 ? asciiChars[0].length : 0;
+  const first = asciiChars[0]?.[0];
+  const stepX = cols > 1 ? asciiChars[0][1].x - first.x : 1;
+  const stepY = rows > 1 ? asciiChars[1][0].y - first.y : 1;
+
+  const writer = createFrameWriter({
+    cols,
+    rows,
+    stepX,
+    stepY,
+    originX: first?.x ?? 0,
+    originY: first?.y ?? 0,
+  });
+  const { frame } = writer;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const { char, color, bgColor, alpha = 1 } = asciiChars[y][x];
+      const i = y * cols + x;
+      frame.glyphs[i] = writer.glyphIndex(char);
+      frame.colors[i] = withAlpha(hexToPacked(color), alpha);
+      frame.backgrounds[i] = bgColor ? hexToPacked(bgColor) : 0;
+    }
+  }
+  return frame;
+}
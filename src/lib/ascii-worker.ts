@@ -0,0 +1,63 @@
+import { convertToASCIIFrame, renderASCIIToCanvas } from './ascii-converter';
+import { FontFile, installFont } from './fonts';
+import type { RenderWorkerRequest, RenderWorkerResponse } from './render-pool';
+import { TemporalState, getStreamState } from './temporal';
+
+// The project compiles against the DOM lib, so describe the worker scope locally
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<RenderWorkerRequest>) => void) | null;
+  postMessage(message: RenderWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const fontsReady = new Map<string, Promise<void>>();
+const streams = new Map<string, TemporalState>();
+let sourceCanvas: OffscreenCanvas | null = null;
+let outputCanvas: OffscreenCanvas | null = null;
+
+function addFont(family: string, files: FontFile[]): void {
+  // A font that can't be installed still renders, just with the fallback face
+  fontsReady.set(family, installFont(family, files).catch(() => undefined));
+}
+
+function resize(canvas: OffscreenCanvas | null, width: number, height: number): OffscreenCanvas {
+  if (!canvas) return new OffscreenCanvas(width, height);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  return canvas;
+}
+
+scope.onmessage = async ({ data: request }) => {
+  if (request.type === 'font') {
+    addFont(request.family, request.files);
+    return;
+  }
+
+  const { id, source, settings, outputWidth, outputHeight } = request;
+  try {
+    // The pool sends a family's files before any job that uses it
+    await fontsReady.get(settings.fontFamily);
+
+    sourceCanvas = resize(sourceCanvas, source.width, source.height);
+    outputCanvas = resize(outputCanvas, outputWidth, outputHeight);
+    const sourceCtx = sourceCanvas.getContext('2d', { willReadFrequently: true });
+    const outputCtx = outputCanvas.getContext('2d');
+    if (!sourceCtx || !outputCtx) throw new Error('OffscreenCanvas 2D is unavailable');
+
+    sourceCtx.clearRect(0, 0, source.width, source.height);
+    sourceCtx.drawImage(source, 0, 0);
+    source.close();
+
+    const temporal = getStreamState(streams, request);
+    const frame = convertToASCIIFrame(
+      sourceCtx, sourceCanvas.width, sourceCanvas.height, settings, temporal
+    );
+    renderASCIIToCanvas(outputCtx, frame, settings, outputWidth, outputHeight, sourceCanvas);
+
+    const bitmap = outputCanvas.transferToImageBitmap();
+    scope.postMessage({ id, bitmap }, [bitmap]);
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
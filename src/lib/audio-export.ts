@@ -0,0 +1,72 @@
+// Rate exported audio is rendered at; every encoder we target accepts it
+export const EXPORT_SAMPLE_RATE = 48000;
+// Exports are at most stereo
+const MAX_CHANNELS = 2;
+
+export type ExportAudioSource = 'source' | 'none' | 'file';
+
+export const AUDIO_FILE_ACCEPT = 'audio/*,.mp3,.wav,.ogg,.m4a,.aac,.flac';
+
+/**
+ * Decodes the audio track of a media file. Rejects when the file has no audio
+ * or the browser can't decode it.
+ */
+export async function decodeAudioFile(file: Blob): Promise<AudioBuffer> {
+  if (typeof OfflineAudioContext === 'undefined') {
+    throw new Error("This browser can't decode audio");
+  }
+  // decodeAudioData only needs a context for its sample rate; nothing is played
+  const ctx = new OfflineAudioContext(1, 1, EXPORT_SAMPLE_RATE);
+  return ctx.decodeAudioData(await file.arrayBuffer());
+}
+
+// Non-standard ways browsers tell whether a media element has sound
+type AudioTrackHints = HTMLVideoElement & {
+  audioTracks?: { length: number };
+  mozHasAudio?: boolean;
+  webkitAudioDecodedByteCount?: number;
+};
+
+/**
+ * Whether a video has an audio track, or null when the browser can't tell.
+ * Chrome only counts audio it has decoded, so it can only rule audio out once
+ * the video has played.
+ */
+export function hasAudioTrack(video: HTMLVideoElement): boolean | null {
+  const hints = video as AudioTrackHints;
+  if (hints.audioTracks) return hints.audioTracks.length > 0;
+  if (hints.mozHasAudio !== undefined) return hints.mozHasAudio;
+  if (hints.webkitAudioDecodedByteCount !== undefined) {
+    if (hints.webkitAudioDecodedByteCount > 0) return true;
+    return video.played.length > 0 ? false : null;
+  }
+  return null;
+}
+
+export interface AudioRange {
+  // Start of the range in the source's own timeline, in seconds
+  start: number;
+  // Length of the exported output, in seconds
+  duration: number;
+  // Source seconds per output second, matching the video's playback speed
+  playbackRate: number;
+}
+
+/**
+ * Renders the part of `buffer` that lines up with an exported range, resampled
+ * to EXPORT_SAMPLE_RATE and sped up or slowed down by the playback rate. Audio
+ * shorter than the range is padded with silence.
+ */
+export async function renderAudioRange(buffer: AudioBuffer, range: AudioRange): Promise<AudioBuffer> {
+  const channels = Math.min(MAX_CHANNELS, buffer.numberOfChannels);
+  const length = Math.max(1, Math.round(range.duration * EXPORT_SAMPLE_RATE));
+  const ctx = new OfflineAudioContext(channels, length, EXPORT_SAMPLE_RATE);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = range.playbackRate;
+  source.connect(ctx.destination);
+  source.start(0, Math.max(0, range.start));
+
+  return ctx.startRendering();
+}
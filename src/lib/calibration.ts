@@ -0,0 +1,44 @@
+import { GlyphMetrics, rasterizeGlyphs } from './glyph-raster';
+import { splitGraphemes } from './graphemes';
+
+// Glyphs whose ink coverage differs by less than this look the same in a ramp
+const DUPLICATE_TOLERANCE = 0.002;
+
+export interface GlyphDensity {
+  char: string;
+  // Fraction of the cell covered by ink, 0-1
+  coverage: number;
+}
+
+export interface CharacterCalibration {
+  // Each distinct glyph in the order it was typed
+  glyphs: GlyphDensity[];
+  // Sparsest to densest with visually duplicate glyphs dropped
+  ramp: string;
+  // True when the set is already in that order
+  calibrated: boolean;
+}
+
+/**
+ * Rasterizes every glyph of a character set in the given font and derives a
+ * density ramp from its ink coverage.
+ */
+export function calibrateCharacterSet(
+  characterSet: string,
+  metrics: GlyphMetrics
+): CharacterCalibration {
+  const chars = Array.from(new Set(splitGraphemes(characterSet)));
+  const coverage = rasterizeGlyphs(chars, 1, 1, metrics);
+  const glyphs = chars.map((char, i) => ({ char, coverage: coverage[i][0] }));
+
+  const sorted = [...glyphs].sort((a, b) => a.coverage - b.coverage);
+  const ramp: GlyphDensity[] = [];
+  for (const glyph of sorted) {
+    const previous = ramp[ramp.length - 1];
+    if (previous && glyph.coverage - previous.coverage < DUPLICATE_TOLERANCE) continue;
+    ramp.push(glyph);
+  }
+
+  const rampString = ramp.map((glyph) => glyph.char).join('');
+  return { glyphs, ramp: rampString, calibrated: rampString === characterSet };
+}
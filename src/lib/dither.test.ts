@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DitherMode, ditherLevels } from './dither';
+
+const COLS = 16;
+const ROWS = 16;
+
+function flat(value: number): Float32Array {
+  return new Float32Array(COLS * ROWS).fill(value);
+}
+
+function mean(levels: Int32Array): number {
+  return levels.reduce((total, level) => total + level, 0) / levels.length;
+}
+
+describe('ditherLevels', () => {
+  it('rounds to the nearest level without dithering', () => {
+    const values = Float32Array.from([0, 0.2, 0.49, 0.51, 0.8, 1]);
+    expect(Array.from(ditherLevels(values, 6, 1, 2, 'none', 1))).toEqual([0, 0, 0, 1, 1, 1]);
+    expect(Array.from(ditherLevels(values, 6, 1, 5, 'none', 1))).toEqual([0, 1, 2, 2, 3, 4]);
+  });
+
+  it.each<DitherMode>(['floyd-steinberg', 'sierra', 'bayer2', 'bayer4', 'bayer8'])(
+    '%s keeps the average tone of a flat area',
+    (mode) => {
+      for (const tone of [0.25, 0.5, 0.75]) {
+        expect(mean(ditherLevels(flat(tone), COLS, ROWS, 2, mode, 1))).toBeCloseTo(tone, 1);
+      }
+    }
+  );
+
+  it('lets Atkinson lose some error, so midtones stay close but not exact', () => {
+    const average = mean(ditherLevels(flat(0.5), COLS, ROWS, 2, 'atkinson', 1));
+    expect(average).toBeGreaterThan(0.3);
+    expect(average).toBeLessThan(0.7);
+  });
+
+  it('tiles a 2x2 Bayer pattern over a midtone', () => {
+    const levels = ditherLevels(flat(0.5), 4, 2, 2, 'bayer2', 1);
+    expect(Array.from(levels)).toEqual([0, 1, 0, 1, 1, 0, 1, 0]);
+  });
+
+  it('does nothing at zero strength', () => {
+    expect(mean(ditherLevels(flat(0.4), COLS, ROWS, 2, 'floyd-steinberg', 0))).toBe(0);
+    expect(mean(ditherLevels(flat(0.4), COLS, ROWS, 2, 'bayer4', 0))).toBe(0);
+  });
+});
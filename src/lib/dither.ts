@@ -0,0 +1,153 @@
+export type DitherMode =
+  | 'none'
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'sierra'
+  | 'bayer2'
+  | 'bayer4'
+  | 'bayer8';
+
+export const DITHER_MODES: { value: DitherMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'atkinson', label: 'Atkinson' },
+  { value: 'sierra', label: 'Sierra' },
+  { value: 'bayer2', label: 'Bayer 2×2' },
+  { value: 'bayer4', label: 'Bayer 4×4' },
+  { value: 'bayer8', label: 'Bayer 8×8' },
+];
+
+interface DiffusionKernel {
+  divisor: number;
+  // [dx, dy, weight] relative to the current cell
+  taps: [number, number, number][];
+}
+
+const DIFFUSION_KERNELS: Partial<Record<DitherMode, DiffusionKernel>> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+  },
+  // Atkinson deliberately only propagates 6/8 of the error
+  atkinson: {
+    divisor: 8,
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+  },
+  sierra: {
+    divisor: 32,
+    taps: [
+      [1, 0, 5], [2, 0, 3],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+      [-1, 2, 2], [0, 2, 3], [1, 2, 2],
+    ],
+  },
+};
+
+const BAYER_SIZES: Partial<Record<DitherMode, number>> = {
+  bayer2: 2,
+  bayer4: 4,
+  bayer8: 8,
+};
+
+const bayerCache = new Map<number, Float32Array>();
+
+// Normalized threshold matrix in [0, 1), built recursively from the 2x2 base
+function getBayerMatrix(size: number): Float32Array {
+  const cached = bayerCache.get(size);
+  if (cached) return cached;
+
+  let matrix = [0];
+  let n = 1;
+  while (n < size) {
+    const next = new Array<number>(n * 2 * n * 2);
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const v = matrix[y * n + x] * 4;
+        next[y * 2 * n + x] = v;
+        next[y * 2 * n + x + n] = v + 2;
+        next[(y + n) * 2 * n + x] = v + 3;
+        next[(y + n) * 2 * n + x + n] = v + 1;
+      }
+    }
+    matrix = next;
+    n *= 2;
+  }
+
+  const result = Float32Array.from(matrix, (v) => (v + 0.5) / (size * size));
+  bayerCache.set(size, result);
+  return result;
+}
+
+/**
+ * Quantizes a cols x rows grid of values with `channels` components per cell.
+ * `quantize` snaps one cell to its nearest representable value (written to
+ * `out`) and returns that value's index. Error diffusion accumulates into
+ * `values`, so pass a copy if the input is still needed. `spread` is the
+ * ordered-dither amplitude, typically one quantization step.
+ */
+export function ditherGrid(
+  values: Float32Array,
+  cols: number,
+  rows: number,
+  channels: number,
+  mode: DitherMode,
+  strength: number,
+  spread: number,
+  quantize: (value: Float32Array, out: Float32Array) => number
+): Int32Array {
+  const indices = new Int32Array(cols * rows);
+  const cell = new Float32Array(channels);
+  const quantized = new Float32Array(channels);
+  const kernel = DIFFUSION_KERNELS[mode];
+  const bayerSize = BAYER_SIZES[mode];
+  const bayer = bayerSize ? getBayerMatrix(bayerSize) : null;
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = y * cols + x;
+      const offset = bayer && bayerSize
+        ? (bayer[(y % bayerSize) * bayerSize + (x % bayerSize)] - 0.5) * spread * strength
+        : 0;
+
+      for (let c = 0; c < channels; c++) {
+        cell[c] = values[i * channels + c] + offset;
+      }
+      indices[i] = quantize(cell, quantized);
+
+      if (!kernel) continue;
+      for (const [dx, dy, weight] of kernel.taps) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= cols || ny >= rows) continue;
+        const n = (ny * cols + nx) * channels;
+        const factor = (weight / kernel.divisor) * strength;
+        for (let c = 0; c < channels; c++) {
+          values[n + c] += (values[i * channels + c] - quantized[c]) * factor;
+        }
+      }
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Dithers normalized values (0-1) onto `levelCount` evenly spaced levels and
+ * returns the chosen level per cell.
+ */
+export function ditherLevels(
+  values: Float32Array,
+  cols: number,
+  rows: number,
+  levelCount: number,
+  mode: DitherMode,
+  strength: number
+): Int32Array {
+  const maxLevel = Math.max(1, levelCount - 1);
+
+  return ditherGrid(values, cols, rows, 1, mode, strength, 1 / maxLevel, (value, out) => {
+    const level = Math.min(maxLevel, Math.max(0, Math.round(value[0] * maxLevel)));
+    out[0] = level / maxLevel;
+    return level;
+  });
+}
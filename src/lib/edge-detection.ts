@@ -0,0 +1,80 @@
+// Largest Sobel response for a hard 0 -> 255 step, used to normalize magnitudes
+const MAX_SOBEL_MAGNITUDE = 4 * 255;
+
+// Edges whose centroid sits in the bottom part of a cell render as '_' instead of '-'
+const UNDERSCORE_CENTROID = 2 / 3;
+
+export function computeLuminance(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number
+): Float32Array {
+  const luminance = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+    luminance[i] = 0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2];
+  }
+  return luminance;
+}
+
+/**
+ * Runs a Sobel pass over one cell and returns a directional glyph when the
+ * average gradient magnitude reaches `threshold` (0-1), or null for fill areas.
+ */
+export function detectEdgeCharacter(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  pixelX: number,
+  pixelY: number,
+  blockWidth: number,
+  blockHeight: number,
+  threshold: number
+): string | null {
+  // Structure tensor sums, so opposite gradients on both sides of a thin line reinforce
+  let sxx = 0, syy = 0, sxy = 0;
+  let totalMagnitude = 0, weightedY = 0, count = 0;
+
+  for (let py = Math.max(0, -pixelY); py < blockHeight && pixelY + py < height; py++) {
+    const y = pixelY + py;
+    const up = Math.max(0, y - 1) * width;
+    const mid = y * width;
+    const down = Math.min(height - 1, y + 1) * width;
+
+    for (let px = Math.max(0, -pixelX); px < blockWidth && pixelX + px < width; px++) {
+      const x = pixelX + px;
+      const left = Math.max(0, x - 1);
+      const right = Math.min(width - 1, x + 1);
+
+      const gx =
+        luminance[up + right] + 2 * luminance[mid + right] + luminance[down + right] -
+        luminance[up + left] - 2 * luminance[mid + left] - luminance[down + left];
+      const gy =
+        luminance[down + left] + 2 * luminance[down + x] + luminance[down + right] -
+        luminance[up + left] - 2 * luminance[up + x] - luminance[up + right];
+
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+      sxx += gx * gx;
+      syy += gy * gy;
+      sxy += gx * gy;
+      totalMagnitude += magnitude;
+      weightedY += magnitude * py;
+      count++;
+    }
+  }
+
+  if (count === 0 || totalMagnitude === 0) return null;
+  if (totalMagnitude / count / MAX_SOBEL_MAGNITUDE < threshold) return null;
+
+  // Dominant gradient orientation; the edge runs perpendicular to it
+  const gradientAngle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  let edgeAngle = ((gradientAngle + Math.PI / 2) * 180) / Math.PI;
+  edgeAngle = ((edgeAngle % 180) + 180) % 180;
+
+  // Image y grows downwards, so a 45° edge runs from top-left to bottom-right
+  if (edgeAngle >= 22.5 && edgeAngle < 67.5) return '\\';
+  if (edgeAngle >= 67.5 && edgeAngle < 112.5) return '|';
+  if (edgeAngle >= 112.5 && edgeAngle < 157.5) return '/';
+
+  const centroid = weightedY / totalMagnitude / Math.max(1, blockHeight - 1);
+  return centroid >= UNDERSCORE_CENTROID ? '_' : '-';
+}
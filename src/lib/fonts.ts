@@ -0,0 +1,186 @@
+import {
+  DEFAULT_GLYPH_METRICS,
+  GlyphMetrics,
+  createScratchContext,
+  rasterizeGlyphs,
+} from './glyph-raster';
+
+export interface FontOption {
+  // CSS family name, also the value stored in settings
+  family: string;
+  label: string;
+  kind: 'mono' | 'condensed' | 'pixel' | 'custom';
+}
+
+// Loaded from Google Fonts in globals.css
+export const BUNDLED_FONTS: FontOption[] = [
+  { family: 'JetBrains Mono', label: 'JetBrains Mono', kind: 'mono' },
+  { family: 'IBM Plex Mono', label: 'IBM Plex Mono', kind: 'mono' },
+  { family: 'Fira Code', label: 'Fira Code', kind: 'mono' },
+  { family: 'Space Mono', label: 'Space Mono', kind: 'mono' },
+  { family: 'Ubuntu Mono', label: 'Ubuntu Mono', kind: 'condensed' },
+  { family: 'Share Tech Mono', label: 'Share Tech Mono', kind: 'condensed' },
+  { family: 'VT323', label: 'VT323', kind: 'pixel' },
+  { family: 'Press Start 2P', label: 'Press Start 2P', kind: 'pixel' },
+];
+
+// One file of a font; Google Fonts splits a family into unicode-range subsets
+export interface FontFile {
+  data: ArrayBuffer;
+  unicodeRange?: string;
+}
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+// Size fonts are measured at; large enough that rounding doesn't skew ratios
+const MEASURE_SIZE = 100;
+
+let customFonts: FontOption[] = [];
+// Font files per family, kept so workers can register them too
+const fontFiles = new Map<string, Promise<FontFile[]>>();
+const metricsCache = new Map<string, GlyphMetrics>();
+
+// The document's font set, or the worker's when running off the main thread
+function getFontFaceSet(): FontFaceSet | null {
+  return (globalThis as { fonts?: FontFaceSet }).fonts ?? null;
+}
+
+export function getFontStack(family: string): string {
+  return `"${family}", monospace`;
+}
+
+export function getCustomFonts(): FontOption[] {
+  return customFonts;
+}
+
+function measureFont(family: string): GlyphMetrics {
+  const fontFamily = getFontStack(family);
+  const ctx = createScratchContext(1, 1, false);
+  if (!ctx) return { ...DEFAULT_GLYPH_METRICS, fontFamily };
+
+  ctx.font = `${MEASURE_SIZE}px ${fontFamily}`;
+  const metrics = ctx.measureText('M');
+
+  // The font's own line box (as a terminal would use), falling back to the em box
+  const ascent = metrics.fontBoundingBoxAscent || MEASURE_SIZE * DEFAULT_GLYPH_METRICS.baseline;
+  const descent = metrics.fontBoundingBoxDescent || MEASURE_SIZE * (1 - DEFAULT_GLYPH_METRICS.baseline);
+  const cellHeight = ascent + descent;
+
+  return {
+    fontFamily,
+    aspectRatio: metrics.width / cellHeight,
+    fontScale: MEASURE_SIZE / cellHeight,
+    baseline: ascent / cellHeight,
+  };
+}
+
+/**
+ * Cell metrics for a font family. Until the font has loaded the browser
+ * measures its fallback, so those results aren't cached.
+ */
+export function getFontMetrics(family: string): GlyphMetrics {
+  const cached = metricsCache.get(family);
+  if (cached) return cached;
+
+  const metrics = measureFont(family);
+  const fontSet = getFontFaceSet();
+  const loaded = !fontSet || fontSet.check(`${MEASURE_SIZE}px ${getFontStack(family)}`);
+  if (loaded) metricsCache.set(family, metrics);
+  return metrics;
+}
+
+// Generic families the missing-glyph check falls back through
+const PROBE_FALLBACKS = ['monospace', 'serif', 'sans-serif'];
+
+/**
+ * Glyphs the font doesn't cover. A glyph the font has renders identically
+ * whatever follows it in the font stack, so any difference between the
+ * fallback probes means the browser substituted another font.
+ */
+export function findMissingGlyphs(glyphs: readonly string[], family: string): string[] {
+  const metrics = getFontMetrics(family);
+  const probes = PROBE_FALLBACKS.map((fallback) =>
+    rasterizeGlyphs(glyphs, 4, 6, { ...metrics, fontFamily: `"${family}", ${fallback}` })
+  );
+
+  return glyphs.filter((_, i) =>
+    probes.some((probe) => probe[i].some((value, j) => Math.abs(value - probes[0][i][j]) > 0.01))
+  );
+}
+
+// Resolves once the family can be drawn to a canvas
+export async function loadFont(family: string): Promise<void> {
+  const fontSet = getFontFaceSet();
+  if (!fontSet) return;
+  await fontSet.load(`${MEASURE_SIZE}px ${getFontStack(family)}`);
+  metricsCache.delete(family);
+}
+
+async function fetchBundledFont(family: string): Promise<FontFile[]> {
+  if (!BUNDLED_FONTS.some((font) => font.family === family)) return [];
+  const query = encodeURIComponent(family).replace(/%20/g, '+');
+  const css = await (await fetch(`https://fonts.googleapis.com/css2?family=${query}`)).text();
+  const rules = Array.from(css.matchAll(/@font-face\s*{([^}]*)}/g), ([, rule]) => rule);
+  const files = await Promise.all(
+    rules.map(async (rule): Promise<FontFile | null> => {
+      const url = /src:\s*url\((['"]?)([^'")]+)\1\)/.exec(rule)?.[2];
+      if (!url) return null;
+      const data = await (await fetch(url)).arrayBuffer();
+      const unicodeRange = /unicode-range:\s*([^;]+);/.exec(rule)?.[1];
+      return unicodeRange ? { data, unicodeRange } : { data };
+    })
+  );
+  return files.filter((file): file is FontFile => file !== null);
+}
+
+/**
+ * The files behind a font, for scopes without the page's stylesheets such as
+ * a worker. Uploaded fonts keep the file they came from; bundled fonts are
+ * fetched from Google Fonts on first use. A font that can't be fetched has no
+ * files, and renders with the fallback face.
+ */
+export function getFontFiles(family: string): Promise<FontFile[]> {
+  let files = fontFiles.get(family);
+  if (!files) {
+    files = fetchBundledFont(family).catch(() => []);
+    fontFiles.set(family, files);
+  }
+  return files;
+}
+
+// Registers files from getFontFiles in the current scope, e.g. a worker
+export async function installFont(family: string, files: FontFile[]): Promise<void> {
+  const fontSet = getFontFaceSet();
+  if (!fontSet) return;
+
+  const faces = files.map(
+    ({ data, unicodeRange }) => new FontFace(family, data, unicodeRange ? { unicodeRange } : {})
+  );
+  for (const face of faces) fontSet.add(face);
+  await Promise.all(faces.map((face) => face.load()));
+  metricsCache.delete(family);
+}
+
+/**
+ * Registers an uploaded TTF/OTF/WOFF/WOFF2 file with the document and returns
+ * it as a font option. Re-uploading a file with the same name gets a fresh
+ * family so cached metrics and glyph shapes don't go stale.
+ */
+export async function registerFontFile(file: File): Promise<FontOption> {
+  const label = file.name.replace(/\.(ttf|otf|woff2?)$/i, '') || 'Custom font';
+  const taken = new Set(customFonts.map((font) => font.family));
+  let family = label;
+  for (let n = 2; taken.has(family) || BUNDLED_FONTS.some((font) => font.family === family); n++) {
+    family = `${label} ${n}`;
+  }
+
+  const data = await file.arrayBuffer();
+  const face = new FontFace(family, data);
+  await face.load();
+  document.fonts.add(face);
+  fontFiles.set(family, Promise.resolve([{ data }]));
+
+  const option: FontOption = { family, label: family, kind: 'custom' };
+  customFonts = [...customFonts, option];
+  return option;
+}
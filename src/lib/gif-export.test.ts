@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_GIF_EXPORT_OPTIONS,
+  GIFExportOptions,
+  applyGIFTransparency,
+  createGIFTimeline,
+  getGIFDither,
+  getGIFRepeat,
+  getLoopPlays,
+  pickTransparentKey,
+  planGIFFrames,
+  usesGlobalGIFPalette,
+} from './gif-export';
+
+const options = (overrides: Partial<GIFExportOptions>): GIFExportOptions => ({
+  ...DEFAULT_GIF_EXPORT_OPTIONS,
+  ...overrides,
+});
+
+describe('planGIFFrames', () => {
+  it('spreads delays over the 10 ms grid so the rate averages out', () => {
+    const plan = planGIFFrames(options({ fps: 15 }), { duration: 1 });
+    expect(plan.times).toHaveLength(15);
+    expect(plan.delays.slice(0, 3)).toEqual([70, 60, 70]);
+    expect(plan.delays.every((delay) => delay % 10 === 0)).toBe(true);
+    expect(plan.duration).toBeCloseTo(1);
+    expect(plan.truncated).toBe(false);
+  });
+
+  it('never goes below the 20 ms browsers honour', () => {
+    const plan = planGIFFrames(options({ fps: 50 }), { duration: 0.5 });
+    expect(plan.delays).toEqual(new Array(25).fill(20));
+  });
+
+  it('samples the requested range', () => {
+    const plan = planGIFFrames(options({ fps: 10, start: 1, end: 1.5 }), { duration: 4 });
+    expect(plan.times.map((time) => +time.toFixed(3))).toEqual([1, 1.1, 1.2, 1.3, 1.4]);
+  });
+
+  it('clamps the range to the source', () => {
+    const plan = planGIFFrames(options({ fps: 10, start: -2, end: 30 }), { duration: 1 });
+    expect(plan.times[0]).toBe(0);
+    expect(plan.times).toHaveLength(10);
+  });
+
+  it('cuts the range short at maxFrames instead of speeding it up', () => {
+    const plan = planGIFFrames(options({ fps: 10, maxFrames: 4 }), { duration: 2 });
+    expect(plan.times).toHaveLength(4);
+    expect(plan.delays).toEqual([100, 100, 100, 100]);
+    expect(plan.truncated).toBe(true);
+  });
+
+  it('keeps a GIF source its own frames and delays at fps 0', () => {
+    const timeline = createGIFTimeline([100, undefined, 10, 50]);
+    expect(timeline.frameDelays).toEqual([100, 100, 20, 50]);
+    expect(timeline.duration).toBeCloseTo(0.27);
+
+    const plan = planGIFFrames(options({ fps: 0, start: 0.15 }), timeline);
+    expect(plan.times.map((time) => +time.toFixed(3))).toEqual([0.1, 0.2, 0.22]);
+    expect(plan.delays).toEqual([100, 20, 50]);
+
+    const truncated = planGIFFrames(options({ fps: 0, maxFrames: 2 }), timeline);
+    expect(truncated.delays).toEqual([100, 100]);
+    expect(truncated.truncated).toBe(true);
+  });
+
+  it('falls back to the default rate at fps 0 without source frames', () => {
+    const plan = planGIFFrames(options({ fps: 0 }), { duration: 1 });
+    expect(plan.times).toHaveLength(DEFAULT_GIF_EXPORT_OPTIONS.fps);
+  });
+
+  it('always plans at least one frame', () => {
+    const plan = planGIFFrames(options({ fps: 10 }), { duration: 0 });
+    expect(plan.times).toEqual([0]);
+  });
+});
+
+describe('loop options', () => {
+  it('counts total plays', () => {
+    expect(getLoopPlays(options({ loop: 'infinite' }))).toBe(0);
+    expect(getLoopPlays(options({ loop: 'once' }))).toBe(1);
+    expect(getLoopPlays(options({ loop: 'count', loopCount: 3 }))).toBe(3);
+    expect(getLoopPlays(options({ loop: 'count', loopCount: 0 }))).toBe(1);
+  });
+
+  it("translates plays into gif.js's repeat count", () => {
+    expect(getGIFRepeat(options({ loop: 'infinite' }))).toBe(0);
+    expect(getGIFRepeat(options({ loop: 'once' }))).toBe(-1);
+    expect(getGIFRepeat(options({ loop: 'count', loopCount: 1 }))).toBe(-1);
+    expect(getGIFRepeat(options({ loop: 'count', loopCount: 3 }))).toBe(2);
+  });
+});
+
+describe('getGIFDither', () => {
+  it('names the kernel, with the serpentine suffix when asked', () => {
+    expect(getGIFDither(options({ dither: 'none', serpentine: true }))).toBe(false);
+    expect(getGIFDither(options({ dither: 'Atkinson' }))).toBe('Atkinson');
+    expect(getGIFDither(options({ dither: 'FloydSteinberg', serpentine: true }))).toBe(
+      'FloydSteinberg-serpentine'
+    );
+  });
+});
+
+const rgba = (...pixels: number[][]) => Uint8ClampedArray.from(pixels.flat());
+const channels = (key: number) => [(key >> 16) & 0xff, (key >> 8) & 0xff, key & 0xff];
+const distance = (a: number[], b: number[]) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+describe('pickTransparentKey', () => {
+  it('picks a colour far from every opaque colour', () => {
+    const opaque = [[0, 0, 0], [255, 255, 255], [255, 0, 0], [128, 128, 128]];
+    const key = channels(pickTransparentKey(rgba(...opaque.map((c) => [...c, 255])), 0.5));
+    for (const color of opaque) expect(distance(key, color)).toBeGreaterThan(100);
+  });
+
+  it('ignores pixels that will become transparent', () => {
+    // Only black is opaque, so the key lands at the opposite corner even
+    // though the white pixels sit there
+    const data = rgba([0, 0, 0, 255], [255, 255, 255, 40], [250, 250, 250, 0]);
+    expect(channels(pickTransparentKey(data, 0.5))).toEqual([240, 240, 240]);
+  });
+});
+
+describe('applyGIFTransparency', () => {
+  const KEY = 0x10f010;
+
+  it('keys pixels under the threshold and makes the rest opaque', () => {
+    const data = rgba([200, 100, 50, 100], [200, 100, 50, 200], [1, 2, 3, 255]);
+    expect(applyGIFTransparency(data, KEY, { threshold: 0.5, matte: null })).toBe(true);
+    expect(Array.from(data)).toEqual([16, 240, 16, 255, 200, 100, 50, 255, 1, 2, 3, 255]);
+  });
+
+  it('blends kept edge pixels over the matte colour', () => {
+    const data = rgba([255, 0, 0, 153]);
+    applyGIFTransparency(data, KEY, { threshold: 0.5, matte: 0x0000ff });
+    expect(Array.from(data)).toEqual([153, 0, 102, 255]);
+  });
+
+  it('nudges opaque pixels off the key colour', () => {
+    const data = rgba([16, 240, 16, 255]);
+    expect(applyGIFTransparency(data, KEY, { threshold: 0.5, matte: null })).toBe(false);
+    expect(Array.from(data)).toEqual([16, 240, 17, 255]);
+  });
+
+  it('reports frames with nothing to key', () => {
+    const data = rgba([0, 0, 0, 255], [9, 9, 9, 130]);
+    expect(applyGIFTransparency(data, KEY, { threshold: 0.5, matte: null })).toBe(false);
+  });
+});
+
+describe('usesGlobalGIFPalette', () => {
+  it('keeps a palette per frame for transparent GIFs', () => {
+    expect(usesGlobalGIFPalette(options({ globalPalette: true }), false)).toBe(true);
+    expect(usesGlobalGIFPalette(options({ globalPalette: true }), true)).toBe(false);
+    expect(usesGlobalGIFPalette(options({ globalPalette: false }), false)).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+export type GIFLoop = 'infinite' | 'once' | 'count';
+
+// gif.js error diffusion kernels
+export type GIFDither = 'none' | 'FloydSteinberg' | 'FalseFloydSteinberg' | 'Stucki' | 'Atkinson';
+
+export interface GIFExportOptions {
+  // Frames per second, or 0 to keep an animated GIF source's own frames and delays
+  fps: number;
+  // Exported range of the source, in seconds; a null end runs to the end
+  start: number;
+  end: number | null;
+  // The range is cut short rather than sped up when it needs more frames than this
+  maxFrames: number;
+  loop: GIFLoop;
+  // Total plays when loop is 'count'
+  loopCount: number;
+  // gif.js pixel sample interval: 1 is best, higher is faster
+  quality: number;
+  dither: GIFDither;
+  serpentine: boolean;
+  // One palette computed from the first frame for the whole GIF, instead of one per
+  // frame; ignored for transparent GIFs, see usesGlobalGIFPalette()
+  globalPalette: boolean;
+  // With a transparent background: opacity (0-1) below which pixels become transparent
+  transparencyThreshold: number;
+  // Colour semi-transparent edges are blended against, or null to keep them as drawn
+  matteColor: string | null;
+}
+
+export const DEFAULT_GIF_EXPORT_OPTIONS: GIFExportOptions = {
+  fps: 15,
+  start: 0,
+  end: null,
+  maxFrames: 600,
+  loop: 'infinite',
+  loopCount: 3,
+  quality: 10,
+  dither: 'none',
+  serpentine: false,
+  globalPalette: false,
+  transparencyThreshold: 0.5,
+  matteColor: null,
+};
+
+export const GIF_FPS_OPTIONS = [5, 10, 12, 15, 20, 24, 25, 30, 50];
+
+export const GIF_DITHER_OPTIONS: { value: GIFDither; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'FloydSteinberg', label: 'Floyd-Steinberg' },
+  { value: 'FalseFloydSteinberg', label: 'False Floyd-Steinberg' },
+  { value: 'Stucki', label: 'Stucki' },
+  { value: 'Atkinson', label: 'Atkinson' },
+];
+
+// GIF frame delays are stored in hundredths of a second
+const DELAY_UNIT = 10;
+// Browsers slow down delays below 20 ms, so never go under it
+const MIN_DELAY = 20;
+
+// Total times the animation plays, 0 meaning forever (APNG and WebP loop counts)
+export function getLoopPlays(options: GIFExportOptions): number {
+  if (options.loop === 'infinite') return 0;
+  return options.loop === 'once' ? 1 : Math.max(1, Math.round(options.loopCount));
+}
+
+// gif.js `repeat`: 0 loops forever, -1 plays once, N repeats N more times
+export function getGIFRepeat(options: GIFExportOptions): number {
+  const plays = getLoopPlays(options);
+  if (plays === 0) return 0;
+  return plays > 1 ? plays - 1 : -1;
+}
+
+/**
+ * gif.js builds a global palette from the first frame alone, which may hold
+ * no transparent pixels and so leave the key colour out; later frames would
+ * then mark a real glyph colour transparent. Transparent GIFs therefore always
+ * use a palette per frame.
+ */
+export function usesGlobalGIFPalette(options: GIFExportOptions, transparent: boolean): boolean {
+  return options.globalPalette && !transparent;
+}
+
+// gif.js `dither` option
+export function getGIFDither(options: GIFExportOptions): string | false {
+  if (options.dither === 'none') return false;
+  return options.serpentine ? `${options.dither}-serpentine` : options.dither;
+}
+
+export interface GIFSourceTimeline {
+  // Length of the source in seconds
+  duration: number;
+  // Display time of an animated GIF source's frames, in milliseconds
+  frameDelays?: number[];
+  // When each of those frames appears, in seconds
+  frameStarts?: number[];
+}
+
+// How long a source GIF frame is shown, matching the preview's playback
+export function getGIFFrameDelay(delay: number | undefined): number {
+  return Math.max(MIN_DELAY, delay || 100);
+}
+
+export function createGIFTimeline(delays: (number | undefined)[]): GIFSourceTimeline {
+  const frameDelays = delays.map(getGIFFrameDelay);
+  const frameStarts: number[] = [];
+  let time = 0;
+  for (const delay of frameDelays) {
+    frameStarts.push(time);
+    time += delay / 1000;
+  }
+  return { duration: time, frameDelays, frameStarts };
+}
+
+export interface GIFFramePlan {
+  // Source time each exported frame is taken from, in seconds
+  times: number[];
+  // How long each exported frame is shown, in milliseconds
+  delays: number[];
+  // Playback length of the exported GIF, in seconds
+  duration: number;
+  // Whether maxFrames ended the export before the end of the range
+  truncated: boolean;
+}
+
+/**
+ * Works out which source moments become GIF frames and how long each is
+ * shown. Delays are spread over the GIF's 10 ms grid so the average rate
+ * matches the requested fps instead of drifting.
+ */
+export function planGIFFrames(options: GIFExportOptions, source: GIFSourceTimeline): GIFFramePlan {
+  const start = Math.min(Math.max(0, options.start), source.duration);
+  const end = Math.max(start, Math.min(options.end ?? source.duration, source.duration));
+  const maxFrames = Math.max(1, Math.round(options.maxFrames));
+  const times: number[] = [];
+  const delays: number[] = [];
+  let truncated = false;
+
+  if (options.fps <= 0 && source.frameDelays && source.frameStarts) {
+    const { frameDelays, frameStarts } = source;
+    for (let i = 0; i < frameDelays.length; i++) {
+      const time = frameStarts[i];
+      if (time + frameDelays[i] / 1000 <= start || time >= end) continue;
+      if (times.length === maxFrames) {
+        truncated = true;
+        break;
+      }
+      times.push(time);
+      delays.push(frameDelays[i]);
+    }
+  } else {
+    const fps = options.fps > 0 ? options.fps : DEFAULT_GIF_EXPORT_OPTIONS.fps;
+    const count = Math.max(1, Math.floor((end - start) * fps));
+    truncated = count > maxFrames;
+    const step = 100 / fps;
+    for (let i = 0; i < Math.min(count, maxFrames); i++) {
+      times.push(start + i / fps);
+      delays.push(Math.max(MIN_DELAY, (Math.round((i + 1) * step) - Math.round(i * step)) * DELAY_UNIT));
+    }
+  }
+
+  return {
+    times,
+    delays,
+    duration: delays.reduce((total, delay) => total + delay, 0) / 1000,
+    truncated,
+  };
+}
+
+// Colour space is split into BINS³ boxes when looking for a free key colour
+const KEY_BINS = 8;
+const KEY_BIN_SIZE = 256 / KEY_BINS;
+
+function binIndex(r: number, g: number, b: number): number {
+  return (
+    (Math.floor(r / KEY_BIN_SIZE) * KEY_BINS + Math.floor(g / KEY_BIN_SIZE)) * KEY_BINS +
+    Math.floor(b / KEY_BIN_SIZE)
+  );
+}
+
+/**
+ * Picks a key colour for transparent pixels from the middle of the colour-space
+ * box furthest from every opaque colour in `data` (RGBA), so the quantizer
+ * never merges it with a glyph colour.
+ */
+export function pickTransparentKey(data: Uint8ClampedArray, threshold: number): number {
+  const cutoff = threshold * 255;
+  const used = new Uint8Array(KEY_BINS ** 3);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= cutoff) used[binIndex(data[i], data[i + 1], data[i + 2])] = 1;
+  }
+
+  const occupied: number[] = [];
+  used.forEach((flag, bin) => {
+    if (flag) occupied.push(bin);
+  });
+  const coords = (bin: number) => [
+    Math.floor(bin / (KEY_BINS * KEY_BINS)),
+    Math.floor(bin / KEY_BINS) % KEY_BINS,
+    bin % KEY_BINS,
+  ];
+
+  let best = binIndex(255, 0, 255);
+  let bestDistance = -1;
+  for (let bin = 0; bin < used.length; bin++) {
+    if (used[bin]) continue;
+    const [r, g, b] = coords(bin);
+    let nearest = Infinity;
+    for (const other of occupied) {
+      const [or, og, ob] = coords(other);
+      nearest = Math.min(nearest, (r - or) ** 2 + (g - og) ** 2 + (b - ob) ** 2);
+    }
+    if (nearest > bestDistance) {
+      bestDistance = nearest;
+      best = bin;
+    }
+  }
+
+  const [r, g, b] = coords(best).map((c) => Math.floor(c * KEY_BIN_SIZE + KEY_BIN_SIZE / 2));
+  return (r << 16) | (g << 8) | b;
+}
+
+export interface GIFTransparency {
+  // Pixels less opaque than this (0-1) become transparent
+  threshold: number;
+  // Colour to blend kept edge pixels against as 0xRRGGBB, or null to keep them unblended
+  matte: number | null;
+}
+
+/**
+ * GIF pixels are either opaque or fully transparent. Rewrites a frame's RGBA
+ * `data` in place: pixels under the threshold become `key`, the rest become
+ * opaque, blended over the matte colour when one is set. Opaque pixels that
+ * happen to equal the key are nudged off it. Returns whether any pixel was
+ * keyed, since a GIF frame must only declare a transparent colour it uses.
+ */
+export function applyGIFTransparency(
+  data: Uint8ClampedArray,
+  key: number,
+  transparency: GIFTransparency
+): boolean {
+  const cutoff = transparency.threshold * 255;
+  const keyR = (key >> 16) & 0xff;
+  const keyG = (key >> 8) & 0xff;
+  const keyB = key & 0xff;
+  const { matte } = transparency;
+  let keyed = false;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    if (alpha < cutoff) {
+      data[i] = keyR;
+      data[i + 1] = keyG;
+      data[i + 2] = keyB;
+      data[i + 3] = 255;
+      keyed = true;
+      continue;
+    }
+
+    if (matte !== null && alpha < 255) {
+      const a = alpha / 255;
+      data[i] = data[i] * a + ((matte >> 16) & 0xff) * (1 - a);
+      data[i + 1] = data[i + 1] * a + ((matte >> 8) & 0xff) * (1 - a);
+      data[i + 2] = data[i + 2] * a + (matte & 0xff) * (1 - a);
+    }
+    data[i + 3] = 255;
+    if (data[i] === keyR && data[i + 1] === keyG && data[i + 2] === keyB) {
+      data[i + 2] = keyB ^ 1;
+    }
+  }
+  return keyed;
+}
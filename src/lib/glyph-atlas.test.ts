@@ -0,0 +1,85 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, renderASCIIToCanvas } from './ascii-converter';
+import { createFrameWriter, packRGBA } from './ascii-frame';
+import { ScratchContext } from './glyph-raster';
+
+interface Call {
+  name: string;
+  args: unknown[];
+}
+
+// Records every 2D call; measureText reports 6 px advances in a 10 px line box
+class FakeCanvas {
+  calls: Call[] = [];
+  context: ScratchContext | null = null;
+
+  constructor(public width: number, public height: number) {}
+
+  getContext(): ScratchContext {
+    const state: Record<string | symbol, unknown> = { canvas: this };
+    this.context ??= new Proxy(state, {
+      get: (target, prop) => {
+        if (prop in target) return target[prop];
+        if (prop === 'measureText') {
+          return (text: string) => ({
+            width: 6 * text.length,
+            fontBoundingBoxAscent: 8,
+            fontBoundingBoxDescent: 2,
+          });
+        }
+        return (...args: unknown[]) => this.calls.push({ name: String(prop), args });
+      },
+      set: (target, prop, value) => {
+        target[prop] = value;
+        return true;
+      },
+    }) as unknown as ScratchContext;
+    return this.context;
+  }
+
+  named(name: string): Call[] {
+    return this.calls.filter((call) => call.name === name);
+  }
+}
+
+function renderFrame(colorOf: (i: number) => number): FakeCanvas {
+  const { frame, glyphIndex } = createFrameWriter({
+    cols: 8, rows: 2, stepX: 6, stepY: 10, originX: 0, originY: 0,
+  });
+  for (let i = 0; i < 16; i++) {
+    frame.glyphs[i] = glyphIndex(i % 2 ? '@' : '#');
+    frame.colors[i] = colorOf(i);
+  }
+
+  const output = new FakeCanvas(48, 20);
+  renderASCIIToCanvas(output.getContext(), frame, DEFAULT_SETTINGS, 48, 20);
+  return output;
+}
+
+describe('glyph atlas', () => {
+  beforeAll(() => {
+    vi.stubGlobal('OffscreenCanvas', FakeCanvas);
+  });
+
+  it('blits an original-colour frame from one untinted mask per glyph', () => {
+    const output = renderFrame((i) => packRGBA(i * 15, 255 - i * 15, 128));
+
+    expect(output.named('fillText')).toHaveLength(0);
+    // Every cell has its own colour, so each is tinted and drawn on its own
+    const blits = output.named('drawImage');
+    expect(blits).toHaveLength(16);
+
+    const tint = blits[0].args[0] as FakeCanvas;
+    expect(tint.named('fillRect')).toHaveLength(16);
+    const atlas = tint.named('drawImage')[0].args[0] as FakeCanvas;
+    expect(atlas.named('fillText').map(({ args }) => args[0])).toEqual(['#', '@']);
+    expect((atlas.getContext() as unknown as { fillStyle: string }).fillStyle).toBe('#ffffff');
+  });
+
+  it('tints a row of same-coloured glyphs with a single fill', () => {
+    const output = renderFrame(() => packRGBA(0, 255, 136));
+
+    expect(output.named('fillText')).toHaveLength(0);
+    expect(output.named('drawImage')).toHaveLength(2);
+  });
+});
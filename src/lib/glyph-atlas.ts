@@ -0,0 +1,219 @@
+import { ScratchContext, createScratchContext } from './glyph-raster';
+
+const ATLAS_SIZE = 2048;
+
+// Glyphs blitted from the atlas must be reused this often per frame to beat fillText
+const MIN_REUSE = 2;
+
+export interface GlyphRenderStyle {
+  // CSS font shorthand the glyphs are drawn with
+  font: string;
+  cellWidth: number;
+  cellHeight: number;
+  // Distance from the top of a cell to the alphabetic baseline, in pixels
+  baseline: number;
+}
+
+// Advance widths for the current render font, keyed by glyph
+const advanceCache = { font: '', widths: new Map<string, number>() };
+
+function measureAdvance(ctx: ScratchContext, glyph: string): number {
+  if (advanceCache.font !== ctx.font) {
+    advanceCache.font = ctx.font;
+    advanceCache.widths.clear();
+  }
+  let width = advanceCache.widths.get(glyph);
+  if (width === undefined) {
+    width = ctx.measureText(glyph).width;
+    advanceCache.widths.set(glyph, width);
+  }
+  return width;
+}
+
+/**
+ * Draws a glyph with its cell's top-left at (left, top) using the context's
+ * current font and fill. Glyphs wider than `span` (fallback fonts, full-width
+ * forms) are squeezed to fit. Both render paths go through here, so they
+ * rasterize identically.
+ */
+export function drawCellGlyph(
+  ctx: ScratchContext,
+  glyph: string,
+  left: number,
+  top: number,
+  span: number,
+  baseline: number
+): void {
+  const advance = measureAdvance(ctx, glyph);
+  if (advance > span + 0.5) {
+    ctx.save();
+    ctx.translate(left, top + baseline);
+    ctx.scale(span / advance, 1);
+    ctx.fillText(glyph, 0, 0);
+    ctx.restore();
+    return;
+  }
+  ctx.fillText(glyph, left, top + baseline);
+}
+
+export function glyphKey(glyph: string, wide: boolean): string {
+  return `${wide ? 2 : 1}${glyph}`;
+}
+
+interface Atlas {
+  ctx: ScratchContext;
+  // Strip one slot tall where queued glyphs are tinted before they're drawn
+  tint: ScratchContext;
+  style: string;
+  // Margin around each cell so ink overhanging the cell isn't clipped
+  pad: number;
+  slotWidth: number;
+  slotHeight: number;
+  columns: number;
+  capacity: number;
+  slots: Map<string, number>;
+}
+
+let atlas: Atlas | null = null;
+
+function getStyleKey(style: GlyphRenderStyle): string {
+  return `${style.font}|${style.cellWidth}|${style.cellHeight}|${style.baseline}`;
+}
+
+function resetAtlas(style: GlyphRenderStyle): Atlas | null {
+  const pad = Math.ceil(style.cellHeight / 2);
+  const slotWidth = Math.ceil(2 * style.cellWidth) + 2 * pad;
+  const slotHeight = Math.ceil(style.cellHeight) + 2 * pad;
+  const columns = Math.floor(ATLAS_SIZE / slotWidth);
+
+  const ctx = atlas?.ctx ?? createScratchContext(ATLAS_SIZE, ATLAS_SIZE, false);
+  const tint =
+    atlas && atlas.slotHeight === slotHeight
+      ? atlas.tint
+      : createScratchContext(ATLAS_SIZE, slotHeight, false);
+  if (!ctx || !tint) return null;
+  ctx.clearRect(0, 0, ATLAS_SIZE, ATLAS_SIZE);
+
+  atlas = {
+    ctx,
+    tint,
+    style: getStyleKey(style),
+    pad,
+    slotWidth,
+    slotHeight,
+    columns,
+    capacity: columns * Math.floor(ATLAS_SIZE / slotHeight),
+    slots: new Map(),
+  };
+  return atlas;
+}
+
+export interface GlyphBlitter {
+  // Queues a glyph drawn like drawCellGlyph; (left, top) must be whole pixels
+  draw(ctx: ScratchContext, glyph: string, color: string, wide: boolean, left: number, top: number): void;
+  // Draws the queued glyphs; call before drawing anything else onto `ctx`
+  flush(ctx: ScratchContext): void;
+}
+
+/**
+ * Returns a blitter backed by a cache of untinted glyph masks when the frame
+ * reuses its glyphs enough to pay for it, or null to draw with fillText.
+ * `keys` are the frame's distinct glyphKey()s and `cellCount` the number of
+ * glyphs it will draw. Glyphs are tinted as they're drawn, so frames with a
+ * colour per cell reuse the same masks.
+ */
+export function getGlyphBlitter(
+  style: GlyphRenderStyle,
+  keys: Set<string>,
+  cellCount: number
+): GlyphBlitter | null {
+  if (keys.size === 0 || keys.size * MIN_REUSE > cellCount) return null;
+
+  let current = atlas && atlas.style === getStyleKey(style) ? atlas : resetAtlas(style);
+  if (!current || keys.size > current.capacity) return null;
+
+  // Start over when the new glyphs don't fit beside the cached ones
+  let missing = 0;
+  for (const key of keys) {
+    if (!current.slots.has(key)) missing++;
+  }
+  if (current.slots.size + missing > current.capacity) {
+    current = resetAtlas(style);
+    if (!current) return null;
+  }
+
+  const { ctx: atlasCtx, tint, pad, slotWidth, slotHeight, columns, slots } = current;
+  atlasCtx.font = style.font;
+  atlasCtx.textBaseline = 'alphabetic';
+  atlasCtx.textAlign = 'left';
+  atlasCtx.fillStyle = '#ffffff';
+
+  const slotFor = (glyph: string, wide: boolean): number => {
+    const key = glyphKey(glyph, wide);
+    let slot = slots.get(key);
+    if (slot === undefined) {
+      slot = slots.size;
+      slots.set(key, slot);
+
+      const slotX = (slot % columns) * slotWidth;
+      const slotY = Math.floor(slot / columns) * slotHeight;
+      atlasCtx.save();
+      atlasCtx.beginPath();
+      atlasCtx.rect(slotX, slotY, slotWidth, slotHeight);
+      atlasCtx.clip();
+      drawCellGlyph(
+        atlasCtx, glyph, slotX + pad, slotY + pad,
+        wide ? 2 * style.cellWidth : style.cellWidth, style.baseline
+      );
+      atlasCtx.restore();
+    }
+    return slot;
+  };
+
+  // A run of same-coloured glyphs on one row, tinted with a single fill
+  let runColor = '';
+  let runTop = 0;
+  const run: { slot: number; left: number }[] = [];
+
+  const flush = (ctx: ScratchContext) => {
+    if (run.length === 0) return;
+    const originX = run[0].left - pad;
+    const width = run[run.length - 1].left - run[0].left + slotWidth;
+
+    tint.globalCompositeOperation = 'source-over';
+    tint.clearRect(0, 0, width, slotHeight);
+    for (const { slot, left } of run) {
+      tint.drawImage(
+        atlasCtx.canvas,
+        (slot % columns) * slotWidth,
+        Math.floor(slot / columns) * slotHeight,
+        slotWidth,
+        slotHeight,
+        left - pad - originX,
+        0,
+        slotWidth,
+        slotHeight
+      );
+    }
+    // Keeps the masks' coverage and takes the colour from the fill
+    tint.globalCompositeOperation = 'source-in';
+    tint.fillStyle = runColor;
+    tint.fillRect(0, 0, width, slotHeight);
+
+    ctx.drawImage(tint.canvas, 0, 0, width, slotHeight, originX, runTop - pad, width, slotHeight);
+    run.length = 0;
+  };
+
+  return {
+    draw(ctx, glyph, color, wide, left, top) {
+      const fits = run.length > 0 && left - run[0].left + slotWidth <= ATLAS_SIZE;
+      if (!fits || color !== runColor || top !== runTop) {
+        flush(ctx);
+        runColor = color;
+        runTop = top;
+      }
+      run.push({ slot: slotFor(glyph, wide), left });
+    },
+    flush,
+  };
+}
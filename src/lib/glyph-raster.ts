@@ -0,0 +1,114 @@
+// Font used for both rendering and glyph analysis, so measured shapes match output
+export const GLYPH_FONT_FAMILY = '"JetBrains Mono", monospace';
+
+/**
+ * Cell geometry of a monospace font. Everything is relative to the cell
+ * height (one line), so it applies at any render size.
+ */
+export interface GlyphMetrics {
+  // CSS font stack
+  fontFamily: string;
+  // Advance width / cell height
+  aspectRatio: number;
+  // Font size as a fraction of the cell height
+  fontScale: number;
+  // Distance from the top of the cell to the alphabetic baseline
+  baseline: number;
+}
+
+// Used until the real font has been measured
+export const DEFAULT_GLYPH_METRICS: GlyphMetrics = {
+  fontFamily: GLYPH_FONT_FAMILY,
+  aspectRatio: 0.6,
+  fontScale: 1,
+  baseline: 0.8,
+};
+
+// Resolution each glyph is drawn at before being reduced to a coverage grid
+const RASTER_CELL_HEIGHT = 40;
+
+export type ScratchContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+export function createScratchContext(
+  width: number,
+  height: number,
+  willReadFrequently = true
+): ScratchContext | null {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently });
+  }
+  if (typeof document === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext('2d', { willReadFrequently });
+}
+
+const coverageCache = new Map<string, Float32Array[]>();
+// Edited character sets and uploaded fonts each add an entry, so only the most
+// recent are kept
+const MAX_COVERAGE_ENTRIES = 32;
+
+/**
+ * Draws each glyph once and reduces it to a cols x rows grid of ink coverage
+ * (0 = empty, 1 = fully inked), in row-major order.
+ */
+export function rasterizeGlyphs(
+  glyphs: readonly string[],
+  cols: number,
+  rows: number,
+  metrics: GlyphMetrics = DEFAULT_GLYPH_METRICS
+): Float32Array[] {
+  const { fontFamily, aspectRatio, fontScale, baseline } = metrics;
+  const metricsKey = `${fontFamily}|${aspectRatio}|${fontScale}|${baseline}`;
+  const key = `${metricsKey}|${cols}x${rows}|${glyphs.join('\u0000')}`;
+  const cached = coverageCache.get(key);
+  if (cached) {
+    // Move it to the back of the Map so eviction takes the stalest entry first
+    coverageCache.delete(key);
+    coverageCache.set(key, cached);
+    return cached;
+  }
+
+  const rasterWidth = Math.max(cols, Math.round(RASTER_CELL_HEIGHT * aspectRatio));
+  const ctx = createScratchContext(rasterWidth, RASTER_CELL_HEIGHT);
+  if (!ctx) return glyphs.map(() => new Float32Array(cols * rows));
+
+  ctx.font = `${RASTER_CELL_HEIGHT * fontScale}px ${fontFamily}`;
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#ffffff';
+
+  const result = glyphs.map((glyph) => {
+    ctx.clearRect(0, 0, rasterWidth, RASTER_CELL_HEIGHT);
+    ctx.fillText(glyph, 0, RASTER_CELL_HEIGHT * baseline);
+    const { data } = ctx.getImageData(0, 0, rasterWidth, RASTER_CELL_HEIGHT);
+
+    const coverage = new Float32Array(cols * rows);
+    for (let gy = 0; gy < rows; gy++) {
+      const y0 = Math.floor((gy * RASTER_CELL_HEIGHT) / rows);
+      const y1 = Math.floor(((gy + 1) * RASTER_CELL_HEIGHT) / rows);
+      for (let gx = 0; gx < cols; gx++) {
+        const x0 = Math.floor((gx * rasterWidth) / cols);
+        const x1 = Math.floor(((gx + 1) * rasterWidth) / cols);
+
+        let ink = 0;
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            ink += data[(y * rasterWidth + x) * 4 + 3];
+          }
+        }
+        coverage[gy * cols + gx] = ink / ((x1 - x0) * (y1 - y0) * 255);
+      }
+    }
+    return coverage;
+  });
+
+  const oldest = coverageCache.keys().next().value;
+  if (coverageCache.size >= MAX_COVERAGE_ENTRIES && oldest !== undefined) coverageCache.delete(oldest);
+  coverageCache.set(key, result);
+  return result;
+}
@@ -0,0 +1,94 @@
+// Code point ranges that terminals draw two cells wide (East Asian Wide/Fullwidth and emoji)
+const WIDE_RANGES: [number, number][] = [
+  [0x1100, 0x115f],
+  [0x231a, 0x231b],
+  [0x23e9, 0x23ec],
+  [0x25fd, 0x25fe],
+  [0x2614, 0x2615],
+  [0x2648, 0x2653],
+  [0x26a1, 0x26a1],
+  [0x26aa, 0x26ab],
+  [0x26bd, 0x26be],
+  [0x26c4, 0x26c5],
+  [0x26d4, 0x26d4],
+  [0x26ea, 0x26ea],
+  [0x26f2, 0x26f5],
+  [0x26fa, 0x26fd],
+  [0x2705, 0x2705],
+  [0x270a, 0x270b],
+  [0x2728, 0x2728],
+  [0x274c, 0x274c],
+  [0x2753, 0x2755],
+  [0x2757, 0x2757],
+  [0x2795, 0x2797],
+  [0x2b1b, 0x2b1c],
+  [0x2b50, 0x2b50],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xa960, 0xa97f],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe10, 0xfe19],
+  [0xfe30, 0xfe6f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  // Mahjong tiles
+  [0x1f000, 0x1f02f],
+  [0x1f0cf, 0x1f0cf],
+  [0x1f18e, 0x1f18e],
+  [0x1f191, 0x1f19a],
+  // Regional indicators, which pair up into flags
+  [0x1f1e6, 0x1f1ff],
+  [0x1f200, 0x1f251],
+  [0x1f300, 0x1f64f],
+  [0x1f680, 0x1f6ff],
+  [0x1f7e0, 0x1f7eb],
+  [0x1f7f0, 0x1f7f0],
+  [0x1f90c, 0x1f9ff],
+  [0x1fa70, 0x1faff],
+  [0x20000, 0x3fffd],
+];
+
+const EMOJI_PRESENTATION = '\ufe0f';
+// Combining enclosing keycap, as in "1⃣" with or without VS16
+const KEYCAP = '\u20e3';
+
+const segmenter =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : null;
+
+let lastText = '';
+let lastGraphemes: readonly string[] = [];
+
+/**
+ * Splits text into user-perceived characters, so emoji sequences, flags and
+ * combining marks stay whole. Falls back to code points where
+ * `Intl.Segmenter` is unavailable. The most recent result is reused, since
+ * the converter asks for the same character set once per cell.
+ */
+export function splitGraphemes(text: string): readonly string[] {
+  if (text === lastText) return lastGraphemes;
+
+  lastGraphemes = segmenter
+    ? Array.from(segmenter.segment(text), ({ segment }) => segment)
+    : Array.from(text);
+  lastText = text;
+  return lastGraphemes;
+}
+
+// Whether a grapheme occupies two monospace cells
+export function isWideGrapheme(grapheme: string): boolean {
+  const codePoint = grapheme.codePointAt(0);
+  if (codePoint === undefined) return false;
+
+  for (const [start, end] of WIDE_RANGES) {
+    if (codePoint < start) break;
+    if (codePoint <= end) return true;
+  }
+  // Text-default symbols followed by VS16, and keycap sequences, render as emoji
+  return grapheme.includes(EMOJI_PRESENTATION) || grapheme.includes(KEYCAP);
+}
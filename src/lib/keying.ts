@@ -0,0 +1,47 @@
+function smoothstep(edge0: number, edge1: number, value: number): number {
+  if (edge1 <= edge0) return value < edge0 ? 0 : 1;
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+function toChroma(r: number, g: number, b: number): [number, number] {
+  return [
+    -0.168736 * r - 0.331264 * g + 0.5 * b,
+    0.5 * r - 0.418688 * g - 0.081312 * b,
+  ];
+}
+
+/**
+ * Opacity (0-1) of a colour under a chroma key. Distance is measured in the
+ * CbCr plane so shading on the backdrop doesn't break the key; colours within
+ * `tolerance` are fully keyed and `softness` feathers the edge.
+ */
+export function chromaKeyAlpha(
+  r: number,
+  g: number,
+  b: number,
+  key: { r: number; g: number; b: number },
+  tolerance: number,
+  softness: number
+): number {
+  const [cb, cr] = toChroma(r, g, b);
+  const [keyCb, keyCr] = toChroma(key.r, key.g, key.b);
+  const distance = Math.hypot(cb - keyCb, cr - keyCr) / 255;
+  return smoothstep(tolerance, tolerance + softness, distance);
+}
+
+/**
+ * Opacity (0-1) of a luminance value (0-255) under a luma key that removes
+ * everything below (or above) `threshold` (0-1), feathered by `softness`.
+ */
+export function lumaKeyAlpha(
+  luminance: number,
+  threshold: number,
+  softness: number,
+  keyAbove: boolean
+): number {
+  const value = luminance / 255;
+  return keyAbove
+    ? 1 - smoothstep(threshold - softness, threshold, value)
+    : smoothstep(threshold, threshold + softness, value);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ASCIISettings, DEFAULT_SETTINGS, convertToASCIIFrame } from './ascii-converter';
+import { ScratchContext } from './glyph-raster';
+import { MOSAIC_LAYOUTS } from './mosaic';
+import { createTemporalState } from './temporal';
+
+const codePoint = (glyph: string) => glyph.codePointAt(0);
+
+describe('MOSAIC_LAYOUTS', () => {
+  it('maps half-block masks top to bottom', () => {
+    const { glyphFor } = MOSAIC_LAYOUTS['half-block'];
+    expect([0, 1, 2, 3].map(glyphFor)).toEqual([' ', '▀', '▄', '█']);
+  });
+
+  it('maps quadrant bits in row-major order', () => {
+    const { glyphFor } = MOSAIC_LAYOUTS.quadrant;
+    expect(glyphFor(0b0001)).toBe('▘');
+    expect(glyphFor(0b0010)).toBe('▝');
+    expect(glyphFor(0b0100)).toBe('▖');
+    expect(glyphFor(0b1000)).toBe('▗');
+    expect(glyphFor(0b0101)).toBe('▌');
+    expect(glyphFor(0b1001)).toBe('▚');
+    expect(glyphFor(0b1111)).toBe('█');
+  });
+
+  it('uses block elements for the sextant patterns Unicode already had', () => {
+    const { glyphFor } = MOSAIC_LAYOUTS.sextant;
+    expect(glyphFor(0)).toBe(' ');
+    expect(glyphFor(0b010101)).toBe('▌');
+    expect(glyphFor(0b101010)).toBe('▐');
+    expect(glyphFor(0b111111)).toBe('█');
+  });
+
+  it('maps the remaining sextant masks onto U+1FB00-U+1FB3B in order', () => {
+    const { glyphFor } = MOSAIC_LAYOUTS.sextant;
+    const masks = Array.from({ length: 64 }, (_, mask) => mask).filter(
+      (mask) => ![0, 21, 42, 63].includes(mask)
+    );
+    const codePoints = masks.map((mask) => codePoint(glyphFor(mask)));
+
+    expect(codePoints[0]).toBe(0x1fb00);
+    expect(codePoints[codePoints.length - 1]).toBe(0x1fb3b);
+    // Consecutive, so no glyph is skipped or repeated
+    codePoints.forEach((value, i) => expect(value).toBe(0x1fb00 + i));
+  });
+
+  it('covers each layout with its sub-cell count', () => {
+    for (const { cols, rows, glyphFor } of Object.values(MOSAIC_LAYOUTS)) {
+      const glyphs = Array.from({ length: 1 << (cols * rows) }, (_, mask) => glyphFor(mask));
+      expect(new Set(glyphs).size).toBe(glyphs.length);
+    }
+  });
+});
+
+// A 20x20 frame whose quadrants are solid greys, read back through getImageData
+function quadrantFrame(greys: number[]): ScratchContext {
+  const data = new Uint8ClampedArray(20 * 20 * 4);
+  for (let y = 0; y < 20; y++) {
+    for (let x = 0; x < 20; x++) {
+      const grey = greys[(y < 10 ? 0 : 2) + (x < 10 ? 0 : 1)];
+      data.set([grey, grey, grey, 255], (y * 20 + x) * 4);
+    }
+  }
+  return { getImageData: () => ({ data }) } as unknown as ScratchContext;
+}
+
+describe('convertToASCIIFrame in mosaic modes', () => {
+  const settings: ASCIISettings = {
+    ...DEFAULT_SETTINGS,
+    renderMode: 'quadrant',
+    gridSizing: 'both',
+    gridColumns: 1,
+    gridRows: 1,
+    gridFit: 'crop',
+    temporalSmoothing: true,
+    temporalSmoothingAmount: 0,
+    temporalThreshold: 1,
+  };
+
+  it('fills the background from the glyph colour when hysteresis holds every region bright', () => {
+    const temporal = createTemporalState();
+    const first = convertToASCIIFrame(quadrantFrame([200, 200, 200, 0]), 20, 20, settings, temporal);
+    expect(first.glyphTable[first.glyphs[0]]).toBe('▛');
+
+    // The first three stay bright inside the dead band while the last clears it
+    const second = convertToASCIIFrame(quadrantFrame([100, 100, 100, 200]), 20, 20, settings, temporal);
+    expect(second.glyphTable[second.glyphs[0]]).toBe('█');
+    expect(second.backgrounds[0]).toBe(second.colors[0]);
+  });
+});
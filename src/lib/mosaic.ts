@@ -0,0 +1,32 @@
+export type MosaicMode = 'half-block' | 'quadrant' | 'sextant';
+
+export interface MosaicLayout {
+  cols: number;
+  rows: number;
+  // Glyph for each sub-cell bitmask (bit = row * cols + col)
+  glyphFor: (mask: number) => string;
+}
+
+const HALF_BLOCK_GLYPHS = [' ', '▀', '▄', '█'];
+const QUADRANT_GLYPHS = [
+  ' ', '▘', '▝', '▀', '▖', '▌', '▞', '▛',
+  '▗', '▚', '▐', '▜', '▄', '▙', '▟', '█',
+];
+
+// Sextants live at U+1FB00 in mask order, skipping the four patterns that
+// already exist as block elements (empty, left half, right half, full)
+const SEXTANT_BASE = 0x1fb00;
+function sextantGlyph(mask: number): string {
+  if (mask === 0) return ' ';
+  if (mask === 21) return '▌';
+  if (mask === 42) return '▐';
+  if (mask === 63) return '█';
+  const index = mask - 1 - (mask > 21 ? 1 : 0) - (mask > 42 ? 1 : 0);
+  return String.fromCodePoint(SEXTANT_BASE + index);
+}
+
+export const MOSAIC_LAYOUTS: Record<MosaicMode, MosaicLayout> = {
+  'half-block': { cols: 1, rows: 2, glyphFor: (mask) => HALF_BLOCK_GLYPHS[mask] },
+  quadrant: { cols: 2, rows: 2, glyphFor: (mask) => QUADRANT_GLYPHS[mask] },
+  sextant: { cols: 2, rows: 3, glyphFor: sextantGlyph },
+};
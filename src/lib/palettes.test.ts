@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { PALETTE_PRESETS, getPaletteMatcher, parsePalette } from './palettes';
+
+describe('parsePalette', () => {
+  it('reads hex colours with any separators and expands short forms', () => {
+    expect(parsePalette('#FF0000, 00ff00\n#00f; abc')).toEqual([
+      '#ff0000', '#00ff00', '#0000ff', '#aabbcc',
+    ]);
+  });
+
+  it('reads GIMP palettes and ignores the header', () => {
+    const gpl = [
+      'GIMP Palette',
+      'Name: Test',
+      'Columns: 2',
+      '#',
+      '255   0   0\tRed',
+      '  0 128 255 Sky',
+      ' 12  34  56',
+    ].join('\n');
+    expect(parsePalette(gpl)).toEqual(['#ff0000', '#0080ff', '#0c2238']);
+  });
+
+  it('returns nothing for text without colours', () => {
+    expect(parsePalette('no colours here')).toEqual([]);
+  });
+});
+
+describe('getPaletteMatcher', () => {
+  it('builds the 256-colour xterm palette', () => {
+    const { colors } = PALETTE_PRESETS.xterm256;
+    expect(colors).toHaveLength(256);
+    expect(colors[16]).toBe('#000000');
+    expect(colors[231]).toBe('#ffffff');
+    expect(colors[232]).toBe('#080808');
+  });
+
+  it('returns exact palette colours for themselves', () => {
+    const colors = PALETTE_PRESETS.pico8.colors;
+    const matcher = getPaletteMatcher(colors);
+    colors.forEach((color, i) => {
+      const value = parseInt(color.slice(1), 16);
+      const match = matcher.nearest((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+      expect(colors[match]).toBe(colors[i]);
+    });
+  });
+
+  it('gives the same answer whatever was matched before', () => {
+    const colors = [...PALETTE_PRESETS.xterm256.colors];
+    const warm = getPaletteMatcher(colors);
+    warm.nearest(1, 1, 1);
+    const afterWarmup = warm.nearest(6, 6, 6);
+
+    // The reversed copy gets a matcher of its own, with nothing memoized yet
+    const fresh = getPaletteMatcher([...colors].reverse());
+    const freshMatch = fresh.colors[fresh.nearest(6, 6, 6)];
+    expect(warm.colors[afterWarmup]).toBe(freshMatch);
+  });
+
+  it('clamps out-of-range channels from error diffusion', () => {
+    const matcher = getPaletteMatcher(['#000000', '#ffffff']);
+    expect(matcher.nearest(-40, -3, -100)).toBe(0);
+    expect(matcher.nearest(300, 280, 999)).toBe(1);
+  });
+});
@@ -0,0 +1,179 @@
+export interface PalettePreset {
+  label: string;
+  colors: string[];
+}
+
+const ANSI_16 = [
+  '#000000', '#800000', '#008000', '#808000', '#000080', '#800080', '#008080', '#c0c0c0',
+  '#808080', '#ff0000', '#00ff00', '#ffff00', '#0000ff', '#ff00ff', '#00ffff', '#ffffff',
+];
+
+function buildXterm256(): string[] {
+  const hex = (v: number) => v.toString(16).padStart(2, '0');
+  const colors = [...ANSI_16];
+
+  // 6x6x6 colour cube
+  const levels = [0, 95, 135, 175, 215, 255];
+  for (const r of levels) {
+    for (const g of levels) {
+      for (const b of levels) {
+        colors.push(`#${hex(r)}${hex(g)}${hex(b)}`);
+      }
+    }
+  }
+
+  // 24-step grayscale ramp
+  for (let i = 0; i < 24; i++) {
+    const v = 8 + i * 10;
+    colors.push(`#${hex(v)}${hex(v)}${hex(v)}`);
+  }
+  return colors;
+}
+
+export const PALETTE_PRESETS: Record<string, PalettePreset> = {
+  ansi16: { label: 'ANSI 16', colors: ANSI_16 },
+  xterm256: { label: 'xterm 256', colors: buildXterm256() },
+  cga: {
+    label: 'CGA',
+    colors: [
+      '#000000', '#0000aa', '#00aa00', '#00aaaa', '#aa0000', '#aa00aa', '#aa5500', '#aaaaaa',
+      '#555555', '#5555ff', '#55ff55', '#55ffff', '#ff5555', '#ff55ff', '#ffff55', '#ffffff',
+    ],
+  },
+  c64: {
+    label: 'Commodore 64',
+    colors: [
+      '#000000', '#ffffff', '#68372b', '#70a4b2', '#6f3d86', '#588d43', '#352879', '#b8c76f',
+      '#6f4f25', '#433900', '#9a6759', '#444444', '#6c6c6c', '#9ad284', '#6c5eb5', '#959595',
+    ],
+  },
+  gameboy: {
+    label: 'Game Boy',
+    colors: ['#0f380f', '#306230', '#8bac0f', '#9bbc0f'],
+  },
+  pico8: {
+    label: 'PICO-8',
+    colors: [
+      '#000000', '#1d2b53', '#7e2553', '#008751', '#ab5236', '#5f574f', '#c2c3c7', '#fff1e8',
+      '#ff004d', '#ffa300', '#ffec27', '#00e436', '#29adff', '#83769c', '#ff77a8', '#ffccaa',
+    ],
+  },
+};
+
+/**
+ * Parses a palette from a list of hex colours (any separators) or a GIMP
+ * .gpl file ("R G B name" rows after the header).
+ */
+export function parsePalette(text: string): string[] {
+  const hex = (v: number) => Math.min(255, Math.max(0, v)).toString(16).padStart(2, '0');
+
+  if (/^\s*GIMP Palette/i.test(text)) {
+    const colors: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      const match = /^\s*(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})(\s|$)/.exec(line);
+      if (match) {
+        colors.push(`#${hex(+match[1])}${hex(+match[2])}${hex(+match[3])}`);
+      }
+    }
+    return colors;
+  }
+
+  const colors: string[] = [];
+  for (const match of text.matchAll(/#?\b([0-9a-f]{6}|[0-9a-f]{3})\b/gi)) {
+    const value = match[1].toLowerCase();
+    colors.push(
+      value.length === 3
+        ? `#${value[0]}${value[0]}${value[1]}${value[1]}${value[2]}${value[2]}`
+        : `#${value}`
+    );
+  }
+  return colors;
+}
+
+function srgbToLinear(c: number): number {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+export function rgbToOklab(r: number, g: number, b: number): [number, number, number] {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+export interface PaletteMatcher {
+  colors: string[];
+  rgb: Float32Array;
+  // Index of the perceptually nearest palette entry
+  nearest: (r: number, g: number, b: number) => number;
+}
+
+const matcherCache = new Map<string, PaletteMatcher>();
+// Custom palettes are edited live, so only the most recent matchers are kept
+const MAX_MATCHERS = 16;
+
+export function getPaletteMatcher(colors: string[]): PaletteMatcher {
+  const key = colors.join(',');
+  const cached = matcherCache.get(key);
+  if (cached) {
+    // Re-insert so the Map's order doubles as least-recently-used order
+    matcherCache.delete(key);
+    matcherCache.set(key, cached);
+    return cached;
+  }
+
+  const rgb = new Float32Array(colors.length * 3);
+  const lab = new Float32Array(colors.length * 3);
+  colors.forEach((color, i) => {
+    const value = parseInt(color.replace('#', ''), 16) || 0;
+    rgb[i * 3] = (value >> 16) & 0xff;
+    rgb[i * 3 + 1] = (value >> 8) & 0xff;
+    rgb[i * 3 + 2] = value & 0xff;
+    lab.set(rgbToOklab(rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]), i * 3);
+  });
+
+  // Results are memoized on a 15-bit RGB grid; the lookup cost dominates otherwise.
+  // Each bucket is matched from its centre colour, so the answer never depends
+  // on which colour in the bucket was queried first.
+  const lookup = new Int16Array(1 << 15).fill(-1);
+
+  const nearest = (r: number, g: number, b: number) => {
+    const cr = Math.min(255, Math.max(0, Math.round(r)));
+    const cg = Math.min(255, Math.max(0, Math.round(g)));
+    const cb = Math.min(255, Math.max(0, Math.round(b)));
+    const slot = ((cr >> 3) << 10) | ((cg >> 3) << 5) | (cb >> 3);
+    if (lookup[slot] >= 0) return lookup[slot];
+
+    const [L, A, B] = rgbToOklab((cr & ~7) | 4, (cg & ~7) | 4, (cb & ~7) | 4);
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colors.length; i++) {
+      const dl = L - lab[i * 3];
+      const da = A - lab[i * 3 + 1];
+      const db = B - lab[i * 3 + 2];
+      const distance = dl * dl + da * da + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    lookup[slot] = best;
+    return best;
+  };
+
+  const matcher = { colors, rgb, nearest };
+  const oldest = matcherCache.keys().next().value;
+  if (matcherCache.size >= MAX_MATCHERS && oldest !== undefined) matcherCache.delete(oldest);
+  matcherCache.set(key, matcher);
+  return matcher;
+}
@@ -0,0 +1,213 @@
+import { ASCIISettings, convertToASCIIFrame, renderASCIIToCanvas } from './ascii-converter';
+import { FontFile, getFontFiles } from './fonts';
+import { ScratchContext, createScratchContext } from './glyph-raster';
+import { TemporalState, getStreamState } from './temporal';
+
+const MAX_WORKERS = 4;
+
+export interface RenderJob {
+  // Source frame at conversion size; ownership passes to the pool
+  source: ImageBitmap;
+  settings: ASCIISettings;
+  outputWidth: number;
+  outputHeight: number;
+  // Frames of one stream share temporal smoothing state and run one at a time on
+  // one worker; leave it unset when smoothing is off so frames spread out
+  stream?: string;
+  // Drops the stream's history first, e.g. after a seek
+  resetStream?: boolean;
+}
+
+export type RenderWorkerRequest =
+  | { type: 'font'; family: string; files: FontFile[] }
+  | ({ type: 'render'; id: number } & RenderJob);
+
+export type RenderWorkerResponse =
+  | { id: number; bitmap: ImageBitmap }
+  | { id: number; error: string };
+
+export interface RenderPool {
+  // False when frames are rendered on the main thread instead of in workers
+  readonly threaded: boolean;
+  // Frames that can be in flight at once; callers should drop frames beyond this
+  readonly capacity: number;
+  readonly pending: number;
+  // Whether a job for `stream` should wait: the pool is full, or the stream already has a job in flight
+  isBusy(stream?: string): boolean;
+  // Converts and renders a frame, resolving with the finished output
+  render(job: RenderJob): Promise<ImageBitmap>;
+  dispose(): void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  pending: number;
+  // Font families sent to this worker, settled once the files are posted
+  fonts: Map<string, Promise<void>>;
+}
+
+function supportsWorkers(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof OffscreenCanvas.prototype.transferToImageBitmap === 'function'
+  );
+}
+
+let mainSource: ScratchContext | null = null;
+let mainOutput: ScratchContext | null = null;
+const mainStreams = new Map<string, TemporalState>();
+
+function getMainContext(
+  current: ScratchContext | null,
+  width: number,
+  height: number,
+  willReadFrequently: boolean
+): ScratchContext | null {
+  if (current && current.canvas.width === width && current.canvas.height === height) {
+    return current;
+  }
+  return createScratchContext(width, height, willReadFrequently);
+}
+
+// Same work as a worker does, for browsers without OffscreenCanvas workers
+async function renderOnMainThread(job: RenderJob): Promise<ImageBitmap> {
+  const { source, settings, outputWidth, outputHeight } = job;
+  mainSource = getMainContext(mainSource, source.width, source.height, true);
+  mainOutput = getMainContext(mainOutput, outputWidth, outputHeight, false);
+  if (!mainSource || !mainOutput) throw new Error('Canvas 2D is unavailable');
+
+  mainSource.clearRect(0, 0, source.width, source.height);
+  mainSource.drawImage(source, 0, 0);
+  source.close();
+
+  const temporal = getStreamState(mainStreams, job);
+  const frame = convertToASCIIFrame(mainSource, source.width, source.height, settings, temporal);
+  renderASCIIToCanvas(mainOutput, frame, settings, outputWidth, outputHeight, mainSource.canvas);
+  return createImageBitmap(mainOutput.canvas);
+}
+
+/**
+ * Runs conversion and rendering in a pool of OffscreenCanvas workers. Source
+ * frames and results travel as transferred ImageBitmaps. Where workers or
+ * OffscreenCanvas are unavailable, or a worker fails, jobs run on the main
+ * thread instead.
+ */
+export function createRenderPool(): RenderPool {
+  const workers: PoolWorker[] = [];
+  const jobs = new Map<number, { resolve: (bitmap: ImageBitmap) => void; reject: (error: Error) => void }>();
+  // Each stream sticks to one worker, which holds its temporal state
+  const streamWorkers = new Map<string, PoolWorker>();
+  // Jobs in flight per stream
+  const streamPending = new Map<string, number>();
+  let nextId = 0;
+  let mainPending = 0;
+
+  const trackStream = (stream: string | undefined, delta: number) => {
+    if (stream === undefined) return;
+    const count = (streamPending.get(stream) ?? 0) + delta;
+    if (count > 0) streamPending.set(stream, count);
+    else streamPending.delete(stream);
+  };
+
+  const failAll = (message: string) => {
+    jobs.forEach(({ reject }) => reject(new Error(message)));
+    jobs.clear();
+    workers.forEach(({ worker }) => worker.terminate());
+    workers.length = 0;
+    streamWorkers.clear();
+    streamPending.clear();
+  };
+
+  if (supportsWorkers()) {
+    const count = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+    try {
+      for (let i = 0; i < count; i++) {
+        const worker = new Worker(new URL('./ascii-worker.ts', import.meta.url), { type: 'module' });
+        const entry: PoolWorker = { worker, pending: 0, fonts: new Map() };
+
+        worker.onmessage = ({ data }: MessageEvent<RenderWorkerResponse>) => {
+          entry.pending--;
+          const job = jobs.get(data.id);
+          if (!job) return;
+          jobs.delete(data.id);
+          if ('bitmap' in data) job.resolve(data.bitmap);
+          else job.reject(new Error(data.error));
+        };
+        // A worker that fails to load takes the pool down to the main thread
+        worker.onerror = () => failAll('Render worker failed');
+
+        workers.push(entry);
+      }
+    } catch {
+      failAll('Render workers are unavailable');
+    }
+  }
+
+  const capacity = () => Math.max(1, workers.length);
+  const pending = () => (workers.length > 0 ? jobs.size : mainPending);
+
+  return {
+    get threaded() {
+      return workers.length > 0;
+    },
+    get capacity() {
+      return capacity();
+    },
+    get pending() {
+      return pending();
+    },
+
+    isBusy(stream) {
+      if (stream !== undefined && streamPending.has(stream)) return true;
+      return pending() >= capacity();
+    },
+
+    render(job) {
+      trackStream(job.stream, 1);
+      const done = () => trackStream(job.stream, -1);
+      if (workers.length === 0) {
+        mainPending++;
+        return renderOnMainThread(job).finally(() => {
+          mainPending--;
+          done();
+        });
+      }
+
+      const entry =
+        (job.stream !== undefined && streamWorkers.get(job.stream)) ||
+        workers.reduce((best, candidate) => (candidate.pending < best.pending ? candidate : best));
+      if (job.stream !== undefined) streamWorkers.set(job.stream, entry);
+      // Font files are loaded once here rather than fetched by every worker
+      const family = job.settings.fontFamily;
+      let fontSent = entry.fonts.get(family);
+      if (!fontSent) {
+        fontSent = getFontFiles(family).then((files) => {
+          const request: RenderWorkerRequest = { type: 'font', family, files };
+          entry.worker.postMessage(request);
+        });
+        entry.fonts.set(family, fontSent);
+      }
+
+      const id = nextId++;
+      entry.pending++;
+      return new Promise<ImageBitmap>((resolve, reject) => {
+        jobs.set(id, { resolve, reject });
+        // Jobs queue behind their font, in order, so frames never render with the fallback face
+        fontSent.then(() => {
+          if (!jobs.has(id)) {
+            // The pool failed while the font loaded
+            job.source.close();
+            return;
+          }
+          const request: RenderWorkerRequest = { type: 'render', id, ...job };
+          entry.worker.postMessage(request, [job.source]);
+        });
+      }).finally(done);
+    },
+
+    dispose() {
+      failAll('Render pool disposed');
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SamplingMode, sampleRegion } from './sampling';
+
+// 2x2 image: black, white / red, fully transparent green
+const WIDTH = 2;
+const HEIGHT = 2;
+const PIXELS = Uint8ClampedArray.from([
+  0, 0, 0, 255, 255, 255, 255, 255,
+  255, 0, 0, 255, 0, 255, 0, 0,
+]);
+
+const sample = (x: number, y: number, w: number, h: number, mode: SamplingMode) =>
+  sampleRegion(PIXELS, WIDTH, HEIGHT, x, y, w, h, mode, 4);
+
+describe('sampleRegion', () => {
+  it('averages a box without letting transparent pixels darken it', () => {
+    const result = sample(0, 0, 2, 2, 'box');
+    expect(result?.r).toBeCloseTo(170);
+    expect(result?.g).toBeCloseTo(85);
+    expect(result?.b).toBeCloseTo(85);
+    expect(result?.a).toBeCloseTo(0.75);
+  });
+
+  it('weights area samples by pixel coverage', () => {
+    // Three quarters of the black pixel, one quarter of the white one
+    const result = sample(0.5, 0, 1, 1, 'area');
+    expect(result?.r).toBeCloseTo(127.5);
+    expect(result?.a).toBeCloseTo(1);
+
+    const quarter = sample(0, 0, 0.25, 1, 'area');
+    expect(quarter?.r).toBe(0);
+  });
+
+  it('reads the centre pixel', () => {
+    expect(sample(0, 0, 2, 2, 'center')).toEqual({ r: 0, g: 255, b: 0, a: 0 });
+    expect(sample(0, 0, 1, 2, 'center')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+  });
+
+  it('ranks opaque pixels by luminance and reports coverage', () => {
+    expect(sample(0, 0, 2, 2, 'min')).toEqual({ r: 0, g: 0, b: 0, a: 0.75 });
+    expect(sample(0, 0, 2, 2, 'max')).toEqual({ r: 255, g: 255, b: 255, a: 0.75 });
+    expect(sample(0, 0, 2, 2, 'median')).toEqual({ r: 255, g: 0, b: 0, a: 0.75 });
+  });
+
+  it('supersamples evenly spaced points', () => {
+    const result = sample(0, 0, 2, 1, 'supersample');
+    expect(result?.r).toBeCloseTo(127.5);
+    expect(result?.a).toBe(1);
+  });
+
+  it('returns a transparent sample for fully transparent regions', () => {
+    for (const mode of ['box', 'area', 'median', 'supersample'] as const) {
+      expect(sample(1, 1, 1, 1, mode)).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+    }
+  });
+
+  it('clips regions to the image and returns null outside it', () => {
+    expect(sample(-1, -1, 2, 2, 'box')).toEqual({ r: 0, g: 0, b: 0, a: 1 });
+    expect(sample(2, 0, 1, 1, 'box')).toBeNull();
+    expect(sample(-3, 0, 2, 2, 'area')).toBeNull();
+  });
+});
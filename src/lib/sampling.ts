@@ -0,0 +1,221 @@
+export type SamplingMode =
+  | 'box'
+  | 'area'
+  | 'center'
+  | 'median'
+  | 'min'
+  | 'max'
+  | 'supersample';
+
+export interface PixelSample {
+  r: number;
+  g: number;
+  b: number;
+  // Mean opacity, 0-1
+  a: number;
+}
+
+const TRANSPARENT: PixelSample = { r: 0, g: 0, b: 0, a: 0 };
+
+function luminanceAt(pixels: Uint8ClampedArray, i: number): number {
+  return 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+}
+
+function pixelAt(pixels: Uint8ClampedArray, i: number): PixelSample {
+  return { r: pixels[i], g: pixels[i + 1], b: pixels[i + 2], a: pixels[i + 3] / 255 };
+}
+
+/**
+ * Averages a whole-pixel block. Colour is alpha-weighted (premultiplied), so
+ * transparent pixels don't darken the result.
+ */
+function sampleBlock(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  pixelX: number,
+  pixelY: number,
+  blockWidth: number,
+  blockHeight: number
+): PixelSample | null {
+  let totalR = 0, totalG = 0, totalB = 0, totalA = 0, count = 0;
+
+  for (let py = 0; py < blockHeight && pixelY + py < height; py++) {
+    for (let px = 0; px < blockWidth && pixelX + px < width; px++) {
+      const i = ((pixelY + py) * width + (pixelX + px)) * 4;
+      const alpha = pixels[i + 3];
+      totalR += pixels[i] * alpha;
+      totalG += pixels[i + 1] * alpha;
+      totalB += pixels[i + 2] * alpha;
+      totalA += alpha;
+      count++;
+    }
+  }
+
+  if (count === 0) return null;
+  if (totalA === 0) return TRANSPARENT;
+  return {
+    r: totalR / totalA,
+    g: totalG / totalA,
+    b: totalB / totalA,
+    a: totalA / count / 255,
+  };
+}
+
+// Weights each pixel by the exact fraction of it covered by the region
+function sampleArea(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): PixelSample | null {
+  let totalR = 0, totalG = 0, totalB = 0, totalA = 0, totalWeight = 0;
+
+  for (let py = Math.floor(y0); py < Math.min(height, Math.ceil(y1)); py++) {
+    const wy = Math.min(y1, py + 1) - Math.max(y0, py);
+    for (let px = Math.floor(x0); px < Math.min(width, Math.ceil(x1)); px++) {
+      const weight = wy * (Math.min(x1, px + 1) - Math.max(x0, px));
+      const i = (py * width + px) * 4;
+      const alpha = pixels[i + 3] * weight;
+      totalR += pixels[i] * alpha;
+      totalG += pixels[i + 1] * alpha;
+      totalB += pixels[i + 2] * alpha;
+      totalA += alpha;
+      totalWeight += weight;
+    }
+  }
+
+  if (totalWeight === 0) return null;
+  if (totalA === 0) return TRANSPARENT;
+  return {
+    r: totalR / totalA,
+    g: totalG / totalA,
+    b: totalB / totalA,
+    a: totalA / totalWeight / 255,
+  };
+}
+
+// Picks a single representative pixel by luminance rank (median, darkest or brightest)
+function sampleRanked(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  mode: 'median' | 'min' | 'max'
+): PixelSample | null {
+  const candidates: { index: number; luminance: number }[] = [];
+  let count = 0;
+
+  for (let py = Math.floor(y0); py < Math.min(height, Math.ceil(y1)); py++) {
+    for (let px = Math.floor(x0); px < Math.min(width, Math.ceil(x1)); px++) {
+      const i = (py * width + px) * 4;
+      count++;
+      if (pixels[i + 3] === 0) continue;
+      candidates.push({ index: i, luminance: luminanceAt(pixels, i) });
+    }
+  }
+
+  if (count === 0) return null;
+  if (candidates.length === 0) return TRANSPARENT;
+
+  candidates.sort((a, b) => a.luminance - b.luminance);
+  const pick =
+    mode === 'min' ? 0 :
+    mode === 'max' ? candidates.length - 1 :
+    Math.floor(candidates.length / 2);
+
+  // Opacity still reflects how much of the region is covered
+  return { ...pixelAt(pixels, candidates[pick].index), a: candidates.length / count };
+}
+
+// Averages factor x factor evenly spaced point samples across the region
+function sampleSupersampled(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  factor: number
+): PixelSample | null {
+  if (x0 >= width || y0 >= height) return null;
+
+  let totalR = 0, totalG = 0, totalB = 0, totalA = 0;
+  const samples = factor * factor;
+
+  for (let sy = 0; sy < factor; sy++) {
+    const py = Math.min(height - 1, Math.floor(y0 + ((sy + 0.5) * (y1 - y0)) / factor));
+    for (let sx = 0; sx < factor; sx++) {
+      const px = Math.min(width - 1, Math.floor(x0 + ((sx + 0.5) * (x1 - x0)) / factor));
+      const i = (py * width + px) * 4;
+      const alpha = pixels[i + 3];
+      totalR += pixels[i] * alpha;
+      totalG += pixels[i + 1] * alpha;
+      totalB += pixels[i + 2] * alpha;
+      totalA += alpha;
+    }
+  }
+
+  if (totalA === 0) return TRANSPARENT;
+  return {
+    r: totalR / totalA,
+    g: totalG / totalA,
+    b: totalB / totalA,
+    a: totalA / samples / 255,
+  };
+}
+
+/**
+ * Samples the region starting at (x, y) with size w x h (fractional source
+ * pixels). Returns null when the region lies entirely outside the image.
+ */
+export function sampleRegion(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  mode: SamplingMode,
+  supersampleFactor: number
+): PixelSample | null {
+  // Clip to the image; regions may hang off the edge of letterboxed grids
+  const x0 = Math.max(0, x);
+  const y0 = Math.max(0, y);
+  w = Math.min(width, x + w) - x0;
+  h = Math.min(height, y + h) - y0;
+  if (w <= 0 || h <= 0) return null;
+  x = x0;
+  y = y0;
+
+  switch (mode) {
+    case 'area':
+      return sampleArea(pixels, width, height, x, y, x + w, y + h);
+    case 'center': {
+      const px = Math.floor(x + w / 2);
+      const py = Math.floor(y + h / 2);
+      if (px >= width || py >= height) return null;
+      return pixelAt(pixels, (py * width + px) * 4);
+    }
+    case 'median':
+    case 'min':
+    case 'max':
+      return sampleRanked(pixels, width, height, x, y, x + w, y + h, mode);
+    case 'supersample':
+      return sampleSupersampled(pixels, width, height, x, y, x + w, y + h, supersampleFactor);
+    default:
+      // Whole-pixel box starting at the floored origin; adjacent blocks may overlap
+      return sampleBlock(
+        pixels, width, height, Math.floor(x), Math.floor(y),
+        Math.max(1, Math.ceil(w)), Math.max(1, Math.ceil(h))
+      );
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createTemporalState,
+  getStreamState,
+  prepareTemporalState,
+  smoothValue,
+  stableBit,
+  stableIndex,
+} from './temporal';
+
+describe('smoothValue', () => {
+  it('keeps `amount` of the previous value', () => {
+    expect(smoothValue(100, 200, 0)).toBe(200);
+    expect(smoothValue(100, 200, 0.75)).toBe(125);
+  });
+});
+
+describe('stableIndex', () => {
+  it('takes the nearest index on the first frame', () => {
+    expect(stableIndex(-1, 2.4, 0.25)).toBe(2);
+  });
+
+  it('holds the index until the position is past the dead band', () => {
+    expect(stableIndex(2, 2.7, 0.25)).toBe(2);
+    expect(stableIndex(2, 2.76, 0.25)).toBe(3);
+    expect(stableIndex(2, 1.3, 0.25)).toBe(2);
+    expect(stableIndex(2, 1.2, 0.25)).toBe(1);
+  });
+
+  it('follows the nearest index with no threshold', () => {
+    expect(stableIndex(2, 2.51, 0)).toBe(3);
+  });
+});
+
+describe('stableBit', () => {
+  it('decides on the cutoff alone without history', () => {
+    expect(stableBit(-1, 0.51, 0.5, 0.1)).toBe(1);
+    expect(stableBit(-1, 0.5, 0.5, 0.1)).toBe(0);
+  });
+
+  it('only flips once the value is past the band', () => {
+    expect(stableBit(0, 0.55, 0.5, 0.1)).toBe(0);
+    expect(stableBit(0, 0.65, 0.5, 0.1)).toBe(1);
+    expect(stableBit(1, 0.45, 0.5, 0.1)).toBe(1);
+    expect(stableBit(1, 0.35, 0.5, 0.1)).toBe(0);
+  });
+});
+
+describe('prepareTemporalState', () => {
+  it('starts over when the grid, ramp or sub-cell count changes', () => {
+    const state = createTemporalState();
+    expect(prepareTemporalState(state, 4, 3, 10)).toBe(false);
+    expect(state.index).toHaveLength(12);
+    expect(Array.from(state.index).every((index) => index === -1)).toBe(true);
+
+    state.index[0] = 5;
+    expect(prepareTemporalState(state, 4, 3, 10)).toBe(true);
+    expect(state.index[0]).toBe(5);
+
+    expect(prepareTemporalState(state, 4, 3, 11)).toBe(false);
+    expect(prepareTemporalState(state, 4, 3, 11, 8)).toBe(false);
+    expect(state.detail).toHaveLength(96);
+  });
+});
+
+describe('getStreamState', () => {
+  it('keeps one state per stream and resets it on request', () => {
+    const streams = new Map();
+    expect(getStreamState(streams, {})).toBeUndefined();
+
+    const state = getStreamState(streams, { stream: 'preview' });
+    expect(state).toBeDefined();
+    expect(getStreamState(streams, { stream: 'preview' })).toBe(state);
+    if (!state) return;
+
+    prepareTemporalState(state, 2, 2, 4);
+    getStreamState(streams, { stream: 'preview', resetStream: true });
+    expect(prepareTemporalState(state, 2, 2, 4)).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Per-cell history carried from one frame to the next so noisy video doesn't
+ * make glyphs shimmer. One state belongs to one stream of consecutive frames;
+ * reset it whenever the stream jumps (seek, loop, new export).
+ */
+export interface TemporalState {
+  cols: number;
+  rows: number;
+  // Ramp length (or number of distinct masks) the stored indices refer to
+  levels: number;
+  // Smoothed cell colour (RGB triplets); luminance is derived from it
+  color: Float32Array;
+  // Ramp index currently shown per cell, or the dot/region bitmask in Braille
+  // and mosaic modes; -1 before the first frame
+  index: Int16Array;
+  // Smoothed values per sub-cell (Braille dots, mosaic regions)
+  subcells: number;
+  detail: Float32Array;
+}
+
+export function createTemporalState(): TemporalState {
+  return {
+    cols: 0,
+    rows: 0,
+    levels: 0,
+    color: new Float32Array(0),
+    index: new Int16Array(0),
+    subcells: 0,
+    detail: new Float32Array(0),
+  };
+}
+
+export function resetTemporalState(state: TemporalState): void {
+  state.cols = 0;
+  state.rows = 0;
+  state.levels = 0;
+  state.subcells = 0;
+}
+
+/**
+ * Temporal state for a render job's stream, kept in `streams` by stream name
+ * and reset when the job asks for it. Jobs without a stream get none.
+ */
+export function getStreamState(
+  streams: Map<string, TemporalState>,
+  job: { stream?: string; resetStream?: boolean }
+): TemporalState | undefined {
+  if (job.stream === undefined) return undefined;
+  let state = streams.get(job.stream);
+  if (!state) {
+    state = createTemporalState();
+    streams.set(job.stream, state);
+  } else if (job.resetStream) {
+    resetTemporalState(state);
+  }
+  return state;
+}
+
+// Starts over when the grid or ramp changes shape; returns whether history is usable
+export function prepareTemporalState(
+  state: TemporalState,
+  cols: number,
+  rows: number,
+  levels: number,
+  subcells = 0
+): boolean {
+  if (
+    state.cols === cols &&
+    state.rows === rows &&
+    state.levels === levels &&
+    state.subcells === subcells
+  ) {
+    return true;
+  }
+
+  const count = cols * rows;
+  state.cols = cols;
+  state.rows = rows;
+  state.levels = levels;
+  state.subcells = subcells;
+  state.color = new Float32Array(count * 3);
+  state.index = new Int16Array(count).fill(-1);
+  state.detail = new Float32Array(count * subcells);
+  return false;
+}
+
+/**
+ * Exponential moving average: `amount` (0-1) is the weight kept from the
+ * previous frame.
+ */
+export function smoothValue(previous: number, current: number, amount: number): number {
+  return previous * amount + current * (1 - amount);
+}
+
+/**
+ * Hysteresis on a ramp index. `position` is the continuous ramp position
+ * (0 to levels - 1); the shown index only moves once the position is more
+ * than `threshold` ramp steps past the boundary with its neighbour.
+ */
+export function stableIndex(previous: number, position: number, threshold: number): number {
+  const nearest = Math.round(position);
+  if (previous < 0 || nearest === previous) return nearest;
+  return Math.abs(position - previous) > 0.5 + threshold ? nearest : previous;
+}
+
+/**
+ * Hysteresis on an on/off choice, such as a Braille dot or a mosaic region
+ * joining the foreground. `previous` is 1, 0 or -1 before the first frame;
+ * the choice is on above `cutoff` and only flips once `value` is more than
+ * `band` past it.
+ */
+export function stableBit(previous: number, value: number, cutoff: number, band: number): number {
+  const edge = previous < 0 ? cutoff : previous ? cutoff - band : cutoff + band;
+  return value > edge ? 1 : 0;
+}
@@ -0,0 +1,315 @@
+import { ArrayBufferTarget as MP4Target, Muxer as MP4Muxer } from 'mp4-muxer';
+import { ArrayBufferTarget as WebMTarget, Muxer as WebMMuxer } from 'webm-muxer';
+
+export type VideoContainer = 'mp4' | 'webm';
+
+export interface VideoEncodeOptions {
+  container: VideoContainer;
+  // Frame size; H.264 needs both to be even, see getEncodableSize()
+  width: number;
+  height: number;
+  fps: number;
+  // Target bitrate in bits per second
+  bitrate: number;
+  // Keep the canvas alpha channel where the container and codec allow it
+  alpha?: boolean;
+  // Soundtrack already cut to the exported range, see renderAudioRange()
+  audio?: AudioBuffer | null;
+}
+
+interface CodecCandidate {
+  // WebCodecs codec string
+  codec: string;
+  // Codec as the container's muxer names it
+  muxerCodec: string;
+}
+
+// In order of preference; the first one the browser can encode is used
+const CODEC_CANDIDATES: Record<VideoContainer, CodecCandidate[]> = {
+  mp4: [
+    { codec: 'avc1.640034', muxerCodec: 'avc' },
+    { codec: 'avc1.4d0034', muxerCodec: 'avc' },
+    { codec: 'avc1.42003e', muxerCodec: 'avc' },
+    { codec: 'vp09.00.50.08', muxerCodec: 'vp9' },
+    { codec: 'av01.0.12M.08', muxerCodec: 'av1' },
+  ],
+  webm: [
+    { codec: 'vp09.00.50.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' },
+    { codec: 'av01.0.12M.08', muxerCodec: 'V_AV1' },
+  ],
+};
+
+const AUDIO_CODEC_CANDIDATES: Record<VideoContainer, CodecCandidate[]> = {
+  mp4: [
+    { codec: 'mp4a.40.2', muxerCodec: 'aac' },
+    { codec: 'opus', muxerCodec: 'opus' },
+  ],
+  webm: [{ codec: 'opus', muxerCodec: 'A_OPUS' }],
+};
+
+// Audio frames per encoded AudioData
+const AUDIO_CHUNK_FRAMES = 4096;
+const AUDIO_BITRATE = 192_000;
+
+export const VIDEO_MIME_TYPES: Record<VideoContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+// Seconds between forced keyframes, so players can seek the result
+const KEYFRAME_INTERVAL = 2;
+// Frames allowed to wait in the encoder before addFrame() holds the caller back
+const MAX_ENCODE_QUEUE = 8;
+
+export interface VideoCodecSelection {
+  config: VideoEncoderConfig;
+  muxerCodec: string;
+  alpha: boolean;
+}
+
+export interface AudioCodecSelection {
+  config: AudioEncoderConfig;
+  muxerCodec: string;
+}
+
+export function supportsVideoEncoding(): boolean {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+}
+
+// Rounds a frame size down to even dimensions, which 4:2:0 codecs require
+export function getEncodableSize(width: number, height: number): { width: number; height: number } {
+  return {
+    width: Math.max(2, width - (width % 2)),
+    height: Math.max(2, height - (height % 2)),
+  };
+}
+
+/**
+ * Picks the first codec for the container that the browser can encode at the
+ * requested size and rate. Alpha is only kept in WebM, and dropped if no codec
+ * supports it. Resolves with null when nothing fits.
+ */
+export async function pickVideoCodec(options: VideoEncodeOptions): Promise<VideoCodecSelection | null> {
+  const { container, width, height, fps, bitrate } = options;
+  const alphaOptions = options.alpha && container === 'webm' ? [true, false] : [false];
+
+  for (const alpha of alphaOptions) {
+    for (const { codec, muxerCodec } of CODEC_CANDIDATES[container]) {
+      const config: VideoEncoderConfig = {
+        codec,
+        width,
+        height,
+        bitrate,
+        framerate: fps,
+        alpha: alpha ? 'keep' : 'discard',
+      };
+      if (muxerCodec === 'avc') config.avc = { format: 'avc' };
+
+      try {
+        const { supported } = await VideoEncoder.isConfigSupported(config);
+        if (supported) return { config, muxerCodec, alpha };
+      } catch {
+        // Malformed or unknown codec strings throw instead of reporting unsupported
+      }
+    }
+  }
+  return null;
+}
+
+// The first audio codec for the container the browser can encode, or null
+export async function pickAudioCodec(
+  container: VideoContainer,
+  audio: AudioBuffer
+): Promise<AudioCodecSelection | null> {
+  if (typeof AudioEncoder === 'undefined') return null;
+
+  for (const { codec, muxerCodec } of AUDIO_CODEC_CANDIDATES[container]) {
+    const config: AudioEncoderConfig = {
+      codec,
+      sampleRate: audio.sampleRate,
+      numberOfChannels: audio.numberOfChannels,
+      bitrate: AUDIO_BITRATE,
+    };
+    try {
+      const { supported } = await AudioEncoder.isConfigSupported(config);
+      if (supported) return { config, muxerCodec };
+    } catch {
+      // Same as for video: unknown codecs throw
+    }
+  }
+  return null;
+}
+
+interface ContainerWriter {
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+  finalize(): ArrayBuffer;
+}
+
+function createContainerWriter(
+  options: VideoEncodeOptions,
+  selection: VideoCodecSelection,
+  audio: AudioCodecSelection | null
+): ContainerWriter {
+  const { width, height, fps } = options;
+  const audioTrack = audio && {
+    sampleRate: audio.config.sampleRate,
+    numberOfChannels: audio.config.numberOfChannels,
+  };
+
+  if (options.container === 'mp4') {
+    const muxer = new MP4Muxer({
+      target: new MP4Target(),
+      video: { codec: selection.muxerCodec as 'avc' | 'vp9' | 'av1', width, height, frameRate: fps },
+      audio: audio && audioTrack ? { codec: audio.muxerCodec as 'aac' | 'opus', ...audioTrack } : undefined,
+      fastStart: 'in-memory',
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize() {
+        muxer.finalize();
+        return muxer.target.buffer;
+      },
+    };
+  }
+
+  const muxer = new WebMMuxer({
+    target: new WebMTarget(),
+    video: { codec: selection.muxerCodec, width, height, frameRate: fps, alpha: selection.alpha },
+    audio: audio && audioTrack ? { codec: audio.muxerCodec, ...audioTrack } : undefined,
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize() {
+      muxer.finalize();
+      return muxer.target.buffer;
+    },
+  };
+}
+
+// Encodes a whole soundtrack up front; the muxer interleaves it with the video
+async function encodeAudio(
+  audio: AudioBuffer,
+  selection: AudioCodecSelection,
+  writer: ContainerWriter
+): Promise<void> {
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => writer.addAudioChunk(chunk, meta),
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(selection.config);
+
+  const { numberOfChannels, sampleRate } = audio;
+  const channels = Array.from({ length: numberOfChannels }, (_, c) => audio.getChannelData(c));
+  for (let offset = 0; offset < audio.length; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, audio.length - offset);
+    // Planar layout: each channel's samples back to back
+    const data = new Float32Array(frames * numberOfChannels);
+    channels.forEach((channel, c) => data.set(channel.subarray(offset, offset + frames), c * frames));
+
+    const chunk = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfChannels,
+      numberOfFrames: frames,
+      timestamp: Math.round((offset * 1_000_000) / sampleRate),
+      data,
+    });
+    encoder.encode(chunk);
+    chunk.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+}
+
+export interface FrameEncoder {
+  // WebCodecs codec string in use
+  readonly codec: string;
+  // False when a soundtrack was given but no audio codec could encode it
+  readonly hasAudio: boolean;
+  /**
+   * Encodes the canvas's current contents as frame `index`. Timestamps come
+   * from the index and frame rate, never the clock, so slow frames don't
+   * change the timing. Resolves once the encoder has room for another frame.
+   */
+  addFrame(canvas: CanvasImageSource, index: number): Promise<void>;
+  // Flushes the encoder and returns the finished file
+  finish(): Promise<Blob>;
+  cancel(): void;
+}
+
+/**
+ * Encodes frames offline with WebCodecs and muxes them into a real MP4 or WebM
+ * file, along with the soundtrack if one is given. Rejects when no video codec
+ * for the container is supported; a soundtrack no codec can take is dropped.
+ */
+export async function createFrameEncoder(options: VideoEncodeOptions): Promise<FrameEncoder> {
+  const selection = await pickVideoCodec(options);
+  if (!selection) {
+    throw new Error(`This browser can't encode ${options.container.toUpperCase()} video`);
+  }
+
+  const audio = options.audio ?? null;
+  const audioSelection = audio ? await pickAudioCodec(options.container, audio) : null;
+  const writer = createContainerWriter(options, selection, audioSelection);
+  if (audio && audioSelection) await encodeAudio(audio, audioSelection, writer);
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => writer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(selection.config);
+
+  const keyInterval = Math.max(1, Math.round(options.fps * KEYFRAME_INTERVAL));
+  const frameTime = (index: number) => Math.round((index * 1_000_000) / options.fps);
+
+  const throwIfFailed = () => {
+    if (failure) throw failure;
+  };
+
+  return {
+    codec: selection.config.codec,
+    hasAudio: !audio || audioSelection !== null,
+
+    async addFrame(canvas, index) {
+      throwIfFailed();
+      const timestamp = frameTime(index);
+      const frame = new VideoFrame(canvas, {
+        timestamp,
+        duration: frameTime(index + 1) - timestamp,
+        alpha: selection.alpha ? 'keep' : 'discard',
+      });
+      try {
+        encoder.encode(frame, { keyFrame: index % keyInterval === 0 });
+      } finally {
+        frame.close();
+      }
+
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise((resolve) => encoder.addEventListener('dequeue', resolve, { once: true }));
+        throwIfFailed();
+      }
+    },
+
+    async finish() {
+      await encoder.flush();
+      throwIfFailed();
+      encoder.close();
+      return new Blob([writer.finalize()], { type: VIDEO_MIME_TYPES[options.container] });
+    },
+
+    cancel() {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
@@ -5,10 +5,13 @@ declare module 'gif.js' {
     width?: number;
     height?: number;
     workerScript?: string;
-    transparent?: number;
+    // 0xRRGGBB colour whose closest palette entry is made transparent
+    transparent?: number | null;
     background?: string;
     repeat?: number;
     dither?: boolean | string;
+    // true to compute one palette from the first frame and reuse it
+    globalPalette?: boolean | number[];
   }
 
   interface FrameOptions {
@@ -27,6 +30,8 @@ declare module 'gif.js' {
     on(event: 'progress', callback: (progress: number) => void): void;
     on(event: 'start', callback: () => void): void;
     on(event: 'abort', callback: () => void): void;
+    // Options read by later addFrame() calls, e.g. a per-frame `transparent`
+    setOption<K extends keyof GIFOptions>(key: K, value: GIFOptions[K]): void;
     render(): void;
     abort(): void;
   }